@@ -0,0 +1,170 @@
+import assert from "node:assert";
+import { test } from "node:test";
+import GameAgent from "../agent";
+import ScriptedGameClient from "../apiScripted";
+import GameFunction, {
+  ExecutableGameFunctionResponse,
+  ExecutableGameFunctionStatus,
+} from "../function";
+import { GameAction } from "../interface/GameClient";
+import { MemoryStateStore } from "../stateStore";
+import GameWorker from "../worker";
+
+function setup(
+  actions: GameAction[],
+  options?: { stateStore?: MemoryStateStore; fnDelayMs?: number }
+) {
+  const client = new ScriptedGameClient(actions);
+  const worker = new GameWorker({
+    id: "worker",
+    name: "Worker",
+    description: "Does things",
+    functions: [
+      new GameFunction({
+        name: "ping",
+        description: "Ping",
+        args: [] as const,
+        executable: async () => {
+          if (options?.fnDelayMs) {
+            await new Promise((resolve) =>
+              setTimeout(resolve, options.fnDelayMs)
+            );
+          }
+          return new ExecutableGameFunctionResponse(
+            ExecutableGameFunctionStatus.Done,
+            "pong"
+          );
+        },
+      }),
+    ],
+  });
+  const agent = new GameAgent("", {
+    name: "agent",
+    goal: "goal",
+    description: "description",
+    workers: [worker],
+    gameClient: client,
+    stateStore: options?.stateStore,
+  });
+
+  return { agent, client, worker };
+}
+
+test("run stops after too many invalid actions in a row", async () => {
+  const { agent, client } = setup([
+    ScriptedGameClient.callFunction("nope"),
+    ScriptedGameClient.goTo("nowhere"),
+    ScriptedGameClient.callFunction("nope"),
+    ScriptedGameClient.callFunction("ping"),
+  ]);
+
+  await agent.init();
+  const summary = await agent.run(0);
+
+  assert.deepStrictEqual(summary, {
+    steps: 3,
+    lastActionType: "call_function",
+    reason: "error_limit",
+  });
+  assert.strictEqual(
+    client.requests[1].current_action?.feedback_message,
+    'Function "nope" is not available at Worker. Valid functions: ping.'
+  );
+  assert.match(
+    client.requests[2].current_action?.feedback_message || "",
+    /Location "nowhere" does not exist/
+  );
+});
+
+test("a valid action resets the error count", async () => {
+  const { agent } = setup([
+    ScriptedGameClient.callFunction("nope"),
+    ScriptedGameClient.callFunction("nope"),
+    ScriptedGameClient.callFunction("ping"),
+    ScriptedGameClient.callFunction("nope"),
+  ]);
+
+  await agent.init();
+  const summary = await agent.run(0);
+
+  assert.strictEqual(summary.reason, "wait");
+  assert.strictEqual(summary.steps, 5);
+});
+
+test("snapshots round-trip through a state store", async () => {
+  const stateStore = new MemoryStateStore();
+  const first = setup([ScriptedGameClient.callFunction("nope")], {
+    stateStore,
+  });
+
+  await first.agent.init();
+  await first.agent.step();
+  await first.worker.submitTask("long task");
+
+  // Stores hold snapshots as JSON, which drops undefined fields.
+  const saved = JSON.parse(JSON.stringify(first.agent.save()));
+  assert.deepStrictEqual(await stateStore.load("agent"), saved);
+
+  const second = setup([], { stateStore });
+  await second.agent.init();
+
+  assert.deepStrictEqual(
+    JSON.parse(JSON.stringify(second.agent.save())),
+    saved
+  );
+  assert.strictEqual(second.agent.consecutiveErrors, 1);
+  assert.deepStrictEqual(second.worker.pendingTask, {
+    task: "long task",
+    submissionId: saved.workers.worker.submissionId,
+  });
+
+  // Reattaching doesn't create another agent.
+  assert.strictEqual(second.client.requests.length, 0);
+  await second.agent.step();
+  assert.strictEqual(
+    second.client.requests[0].current_action?.action_status,
+    ExecutableGameFunctionStatus.Failed
+  );
+});
+
+test("newer snapshot versions are refused", () => {
+  const { agent } = setup([]);
+
+  assert.throws(
+    () => agent.restore({ version: 2 as 1 }),
+    /Unsupported agent snapshot version: 2/
+  );
+});
+
+test("stop during a step ends run without waiting for the heartbeat", async () => {
+  const { agent } = setup(
+    [
+      ScriptedGameClient.callFunction("ping"),
+      ScriptedGameClient.callFunction("ping"),
+    ],
+    { fnDelayMs: 50 }
+  );
+
+  await agent.init();
+  const startedAt = Date.now();
+  setTimeout(() => agent.stop(), 10);
+  const summary = await agent.run(30);
+
+  assert.strictEqual(summary.reason, "stopped");
+  assert.strictEqual(summary.steps, 1);
+  assert.ok(Date.now() - startedAt < 1000);
+});
+
+test("abort during the heartbeat sleep ends run", async () => {
+  const { agent } = setup([ScriptedGameClient.callFunction("ping")]);
+  const controller = new AbortController();
+
+  await agent.init();
+  const startedAt = Date.now();
+  setTimeout(() => controller.abort(), 50);
+  const summary = await agent.run(30, { signal: controller.signal });
+
+  assert.strictEqual(summary.reason, "aborted");
+  assert.strictEqual(summary.steps, 1);
+  assert.ok(Date.now() - startedAt < 1000);
+});
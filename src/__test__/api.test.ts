@@ -0,0 +1,43 @@
+import assert from "node:assert";
+import { test } from "node:test";
+import { AxiosRequestConfig } from "axios";
+import GameClient from "../api";
+
+// Stands in for the auth and runner endpoints, recording every request body.
+function stubAdapter(requests: any[]) {
+  return async (config: AxiosRequestConfig) => {
+    const body = JSON.parse(config.data || "{}");
+    const data = config.url?.includes("tokens")
+      ? { data: { accessToken: "token" } }
+      : body.data.route === "/v2/conversation"
+      ? { data: { conversation_id: "chat-1" } }
+      : { data: { message: "hi", is_finished: false } };
+
+    requests.push(body);
+
+    return { data, status: 200, statusText: "OK", headers: {}, config };
+  };
+}
+
+test("V1 chat requests send their payload unwrapped through /prompts", async () => {
+  const requests: any[] = [];
+  const client = new GameClient("key", "model", {
+    adapter: stubAdapter(requests) as AxiosRequestConfig["adapter"],
+  });
+
+  const chatId = await client.createChat({ prompt: "p" });
+  await client.updateChat(chatId, { message: "hello" });
+  await client.reportFunction(chatId, { fn_id: "1" });
+  await client.endChat(chatId, { message: "bye" });
+
+  assert.strictEqual(chatId, "chat-1");
+  assert.deepStrictEqual(
+    requests.slice(1).map((body) => [body.data.route, body.data.data]),
+    [
+      ["/v2/conversation", { prompt: "p" }],
+      ["/v2/conversation/chat-1/next", { message: "hello" }],
+      ["/v2/conversation/chat-1/function/result", { fn_id: "1" }],
+      ["/v2/conversation/chat-1/end", { message: "bye" }],
+    ]
+  );
+});
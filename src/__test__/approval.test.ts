@@ -0,0 +1,80 @@
+import assert from "node:assert";
+import { test } from "node:test";
+import GameAgent from "../agent";
+import ScriptedGameClient from "../apiScripted";
+import GameFunction, {
+  ExecutableGameFunctionResponse,
+  ExecutableGameFunctionStatus,
+} from "../function";
+import GameWorker from "../worker";
+
+function transferSetup() {
+  const executed: Record<string, any>[] = [];
+  const reviewed: Record<string, any>[] = [];
+  const transfer = new GameFunction({
+    name: "transfer",
+    description: "Send funds",
+    requiresApproval: true,
+    args: [{ name: "to", type: "string", description: "Recipient" }] as const,
+    executable: async (args) => {
+      executed.push(args);
+      return new ExecutableGameFunctionResponse(
+        ExecutableGameFunctionStatus.Done,
+        "sent"
+      );
+    },
+  });
+  const worker = new GameWorker({
+    id: "wallet",
+    name: "Wallet",
+    description: "Moves funds",
+    functions: [transfer],
+  });
+  const agent = new GameAgent("", {
+    name: "agent",
+    goal: "goal",
+    description: "description",
+    workers: [worker],
+    gameClient: new ScriptedGameClient([
+      ScriptedGameClient.callFunction("transfer", { to: "alice" }),
+    ]),
+    approvalChannel: {
+      request: async (request) => {
+        reviewed.push(request.args);
+        return { approved: true };
+      },
+    },
+  });
+
+  return { agent, worker, executed, reviewed };
+}
+
+test("middleware added after approval can't change approved args", async () => {
+  const { agent, executed, reviewed } = transferSetup();
+
+  agent.use(async (call, next) => {
+    call.args = { to: "mallory" };
+    return next();
+  });
+
+  await agent.init();
+  await agent.step();
+
+  assert.deepStrictEqual(executed, reviewed);
+  assert.deepStrictEqual(executed, [{ to: "mallory" }]);
+});
+
+test("worker middleware runs before agent approval", async () => {
+  const { agent, worker, executed, reviewed } = transferSetup();
+
+  worker.use(async (call, next) => {
+    call.args = { ...call.args, to: "bob" };
+    return next();
+  });
+
+  await agent.init();
+  await agent.step();
+
+  assert.deepStrictEqual(executed, reviewed);
+  assert.deepStrictEqual(executed, [{ to: "bob" }]);
+});
@@ -0,0 +1,141 @@
+import assert from "node:assert";
+import { test } from "node:test";
+import GameFunction, {
+  ExecutableGameFunctionResponse,
+  ExecutableGameFunctionStatus,
+} from "../function";
+
+const noop = () => {};
+
+function done(feedback: string) {
+  return new ExecutableGameFunctionResponse(
+    ExecutableGameFunctionStatus.Done,
+    feedback
+  );
+}
+
+test("arguments are coerced to their declared types", async () => {
+  let received: Record<string, any> = {};
+  const fn = new GameFunction({
+    name: "poll",
+    description: "Create a poll",
+    args: [
+      { name: "count", type: "integer", description: "Count" },
+      { name: "anonymous", type: "boolean", description: "Anonymous" },
+      { name: "options", type: "array", description: "Options" },
+      { name: "note", description: "Untyped and missing" },
+    ] as const,
+    executable: async (args) => {
+      received = args;
+      return done("ok");
+    },
+  });
+
+  const response = await fn.execute(
+    {
+      count: { value: "3" },
+      anonymous: { value: "false" },
+      options: { value: '["a","b"]' },
+    },
+    noop
+  );
+
+  assert.strictEqual(response.status, ExecutableGameFunctionStatus.Done);
+  assert.deepStrictEqual(received, {
+    count: 3,
+    anonymous: false,
+    options: ["a", "b"],
+  });
+});
+
+test("invalid or missing typed arguments fail without running", async () => {
+  let runs = 0;
+  const fn = new GameFunction({
+    name: "poll",
+    description: "Create a poll",
+    args: [
+      { name: "count", type: "integer", description: "Count" },
+      { name: "question", type: "string", description: "Question" },
+    ] as const,
+    executable: async () => {
+      runs += 1;
+      return done("ok");
+    },
+  });
+
+  const response = await fn.execute({ count: { value: "many" } }, noop);
+
+  assert.strictEqual(runs, 0);
+  assert.strictEqual(response.status, ExecutableGameFunctionStatus.Failed);
+  assert.match(response.feedback, /^Invalid arguments for poll: /);
+  assert.match(response.feedback, /"count"/);
+  assert.match(response.feedback, /"question" is required/);
+});
+
+test("calls that time out are aborted and reported", async () => {
+  let signal: AbortSignal | null = null;
+  const fn = new GameFunction({
+    name: "slow",
+    description: "Never finishes",
+    args: [] as const,
+    timeout: 20,
+    executable: (_, __, abortSignal) => {
+      signal = abortSignal;
+      return new Promise<ExecutableGameFunctionResponse>(() => {});
+    },
+  });
+
+  const response = await fn.execute({}, noop);
+
+  assert.strictEqual(response.status, ExecutableGameFunctionStatus.Failed);
+  assert.match(response.feedback, /timed out after 20ms/);
+  assert.strictEqual(signal!.aborted, true);
+});
+
+test("thrown errors are retried with backoff", async () => {
+  let attempts = 0;
+  const logs: string[] = [];
+  const fn = new GameFunction({
+    name: "flaky",
+    description: "Fails twice",
+    args: [] as const,
+    retries: 2,
+    retryBackoff: 1,
+    executable: async () => {
+      attempts += 1;
+      if (attempts < 3) {
+        throw new Error("network down");
+      }
+      return done("ok");
+    },
+  });
+
+  const response = await fn.execute({}, (msg) => logs.push(msg));
+
+  assert.strictEqual(response.status, ExecutableGameFunctionStatus.Done);
+  assert.strictEqual(attempts, 3);
+  assert.strictEqual(logs.length, 2);
+});
+
+test("failed responses are not retried by default", async () => {
+  let attempts = 0;
+  const fn = new GameFunction({
+    name: "rejects",
+    description: "Fails cleanly",
+    args: [] as const,
+    retries: 3,
+    retryBackoff: 1,
+    executable: async () => {
+      attempts += 1;
+      return new ExecutableGameFunctionResponse(
+        ExecutableGameFunctionStatus.Failed,
+        "bad input"
+      );
+    },
+  });
+
+  const response = await fn.execute({}, noop);
+
+  assert.strictEqual(response.feedback, "bad input");
+  assert.strictEqual(attempts, 1);
+});
@@ -0,0 +1,177 @@
+import assert from "node:assert";
+import { test } from "node:test";
+import GameAgent from "../agent";
+import ScriptedGameClient from "../apiScripted";
+import { ApprovalChannel } from "../approval";
+import { GameAgentBudget } from "../budget";
+import GameFunction, {
+  ExecutableGameFunctionResponse,
+  ExecutableGameFunctionStatus,
+} from "../function";
+import GameWorker from "../worker";
+
+function setup(options: {
+  calls: number;
+  approvalChannel?: ApprovalChannel;
+  budget?: GameAgentBudget;
+  dryRun?: boolean;
+  workerDryRun?: boolean;
+}) {
+  const executed: string[] = [];
+  const client = new ScriptedGameClient(
+    Array.from({ length: options.calls }, () =>
+      ScriptedGameClient.callFunction("post")
+    )
+  );
+  const worker = new GameWorker({
+    id: "worker",
+    name: "Worker",
+    description: "Posts",
+    dryRun: options.workerDryRun,
+    functions: [
+      new GameFunction({
+        name: "post",
+        description: "Post publicly",
+        requiresApproval: true,
+        sideEffects: true,
+        args: [] as const,
+        executable: async () => {
+          executed.push("post");
+          return new ExecutableGameFunctionResponse(
+            ExecutableGameFunctionStatus.Done,
+            "posted"
+          );
+        },
+      }),
+    ],
+  });
+  const agent = new GameAgent("", {
+    name: "agent",
+    goal: "goal",
+    description: "description",
+    workers: [worker],
+    gameClient: client,
+    approvalChannel: options.approvalChannel,
+    budget: options.budget,
+    dryRun: options.dryRun,
+  });
+
+  // Feedback the planner got for each call.
+  const feedback = () =>
+    client.requests
+      .slice(1)
+      .map((request) => request.current_action?.feedback_message);
+
+  return { agent, worker, executed, feedback };
+}
+
+async function runAll(agent: GameAgent, steps: number) {
+  await agent.init();
+  for (let i = 0; i < steps; i++) {
+    await agent.step();
+  }
+}
+
+test("dry runs skip approval and quotas", async () => {
+  let requests = 0;
+  const { agent, executed } = setup({
+    calls: 2,
+    dryRun: true,
+    approvalChannel: {
+      request: async () => {
+        requests += 1;
+        return { approved: true };
+      },
+    },
+    budget: { functions: { post: { perDay: 1 } } },
+  });
+
+  await runAll(agent, 2);
+
+  assert.strictEqual(requests, 0);
+  assert.deepStrictEqual(executed, []);
+  assert.deepStrictEqual(
+    agent.dryRunReport.map((entry) => [entry.simulated, entry.status]),
+    [
+      [true, ExecutableGameFunctionStatus.Done],
+      [true, ExecutableGameFunctionStatus.Done],
+    ]
+  );
+});
+
+test("worker dry runs skip the agent's approval gate", async () => {
+  let requests = 0;
+  const { agent, worker } = setup({
+    calls: 1,
+    workerDryRun: true,
+    approvalChannel: {
+      request: async () => {
+        requests += 1;
+        return { approved: true };
+      },
+    },
+  });
+
+  await runAll(agent, 1);
+
+  assert.strictEqual(requests, 0);
+  assert.strictEqual(worker.dryRunReport.length, 1);
+});
+
+test("rejected calls don't use up quota", async () => {
+  let requests = 0;
+  const { agent, executed, feedback } = setup({
+    calls: 3,
+    approvalChannel: {
+      request: async () => {
+        requests += 1;
+        return requests <= 2
+          ? { approved: false, reason: "not now" }
+          : { approved: true };
+      },
+    },
+    budget: { functions: { post: { perDay: 1 } } },
+  });
+
+  await runAll(agent, 4);
+
+  assert.deepStrictEqual(executed, ["post"]);
+  assert.deepStrictEqual(feedback(), [
+    "post was rejected by a reviewer: not now",
+    "post was rejected by a reviewer: not now",
+    "posted",
+  ]);
+});
+
+test("calls over quota fail with feedback", async () => {
+  const { agent, executed, feedback } = setup({
+    calls: 2,
+    budget: { functions: { post: { perDay: 1 } } },
+  });
+
+  await runAll(agent, 3);
+
+  assert.deepStrictEqual(executed, ["post"]);
+  assert.match(feedback()[1] || "", /^Quota exceeded for post/);
+});
+
+test("a failing approval channel denies the call", async () => {
+  const resolved: boolean[] = [];
+  const { agent, executed, feedback } = setup({
+    calls: 1,
+    approvalChannel: {
+      request: async () => {
+        throw new Error("webhook down");
+      },
+    },
+  });
+
+  agent.on("approvalResolved", ({ approved }) => resolved.push(approved));
+  await runAll(agent, 2);
+
+  assert.deepStrictEqual(executed, []);
+  assert.deepStrictEqual(resolved, [false]);
+  assert.deepStrictEqual(feedback(), [
+    "post was not run, approval unavailable: webhook down",
+  ]);
+});
@@ -0,0 +1,75 @@
+import assert from "node:assert";
+import { test } from "node:test";
+import ScriptedGameClient from "../apiScripted";
+import GameFunction, {
+  ExecutableGameFunctionResponse,
+  ExecutableGameFunctionStatus,
+} from "../function";
+import { GameAction } from "../interface/GameClient";
+import GameWorker from "../worker";
+
+function setup(actions: GameAction[]) {
+  const client = new ScriptedGameClient(actions);
+  const worker = new GameWorker({
+    id: "worker",
+    name: "Worker",
+    description: "Does things",
+    maxConsecutiveErrors: 2,
+    functions: [
+      new GameFunction({
+        name: "ping",
+        description: "Ping",
+        args: [] as const,
+        executable: async () =>
+          new ExecutableGameFunctionResponse(
+            ExecutableGameFunctionStatus.Done,
+            "pong"
+          ),
+      }),
+    ],
+  });
+
+  worker.setAgentId("agent");
+  worker.setGameClient(client);
+
+  return { client, worker };
+}
+
+test("unknown functions are fed back with the valid options", async () => {
+  const { client, worker } = setup([
+    ScriptedGameClient.callFunction("nope"),
+    ScriptedGameClient.callFunction("ping"),
+  ]);
+
+  const result = await worker.runTask("task");
+
+  assert.strictEqual(
+    client.requests[1].current_action?.feedback_message,
+    'Function "nope" is not available at Worker. Valid functions: ping.'
+  );
+  assert.strictEqual(
+    client.requests[1].current_action?.action_status,
+    ExecutableGameFunctionStatus.Failed
+  );
+  assert.strictEqual(result.completed, true);
+  assert.strictEqual(result.failed, false);
+});
+
+test("tasks ended by the error limit are reported as failed", async () => {
+  const { worker } = setup([
+    ScriptedGameClient.callFunction("nope"),
+    ScriptedGameClient.goTo("elsewhere"),
+    ScriptedGameClient.callFunction("ping"),
+  ]);
+
+  const result = await worker.runTask("task");
+
+  assert.strictEqual(result.steps, 2);
+  assert.strictEqual(result.completed, false);
+  assert.strictEqual(result.failed, true);
+  assert.match(
+    result.lastResult?.feedback_message || "",
+    /Action type "go_to" is not supported in a task/
+  );
+  assert.strictEqual(worker.pendingTask, null);
+});
@@ -1,8 +1,33 @@
 import GameClient from "./api";
 import GameClientV2 from "./apiV2";
-import { ExecutableGameFunctionResponseJSON } from "./function";
-import { ActionType, IGameClient, LLMModel } from "./interface/GameClient";
-import GameWorker from "./worker";
+import {
+  GameEventEmitter,
+  GameEvents,
+  GameStepRecord,
+  unwrapArgs,
+} from "./events";
+import {
+  ExecutableGameFunctionResponse,
+  ExecutableGameFunctionResponseJSON,
+  ExecutableGameFunctionStatus,
+} from "./function";
+import {
+  ActionType,
+  GameAction,
+  GameClientOptions,
+  IGameClient,
+  LLMModel,
+} from "./interface/GameClient";
+import { StateStore } from "./interface/StateStore";
+import { ApprovalChannel, approvalMiddleware } from "./approval";
+import { DryRunRecorder } from "./dryRun";
+import { GameAgentBudget, GameBudget, GameBudgetSnapshot } from "./budget";
+import { executeWithMiddleware, GameFunctionMiddleware } from "./middleware";
+import { GameTelemetry, GameTelemetryOptions } from "./telemetry";
+import GameWorker, {
+  GameWorkerSnapshot,
+  unknownFunctionFeedback,
+} from "./worker";
 
 interface IGameAgent {
   name: string;
@@ -13,30 +38,95 @@ interface IGameAgent {
   llmModel?: LLMModel | string;
 }
 
-class GameAgent implements IGameAgent {
+export interface GameAgentRunSummary {
+  steps: number;
+  lastActionType: ActionType | null;
+  reason: "wait" | "error_limit" | "stopped" | "aborted" | "budget";
+}
+
+export interface GameAgentSnapshot {
+  version: 1;
+  agentId: string | null;
+  mapId: string | null;
+  workerId: string;
+  gameActionResult: ExecutableGameFunctionResponseJSON | null;
+  consecutiveErrors: number;
+  workers: Record<string, GameWorkerSnapshot>;
+  budget?: GameBudgetSnapshot;
+  // Local planner state, from clients that keep it (see IGameClient.save).
+  gameClient?: Record<string, any>;
+}
+
+export interface GameAgentWorkerTask {
+  submission_id: string;
+  worker_id: string;
+  task: string;
+  status: "running" | "done" | "stopped" | "failed";
+  result?: string;
+}
+
+interface GameAgentOptions extends IGameAgent {
+  gameClient?: IGameClient;
+  clientOptions?: GameClientOptions;
+  maxConsecutiveErrors?: number;
+  stateStore?: StateStore;
+  stateKey?: string;
+  concurrentWorkers?: boolean;
+  approvalChannel?: ApprovalChannel;
+  // Functions that need approval in addition to those marked requiresApproval.
+  approvalRequired?: string[];
+  dryRun?: boolean;
+  // Functions skipped in a dry run in addition to those marked sideEffects.
+  sideEffects?: string[];
+  budget?: GameAgentBudget;
+  telemetry?: GameTelemetryOptions;
+}
+
+class GameAgent extends GameEventEmitter<GameEvents> implements IGameAgent {
   public name: string;
   public goal: string;
   public description: string;
   public workers: GameWorker[];
   public getAgentState?: () => Promise<Record<string, any>>;
 
+  public maxConsecutiveErrors: number;
+  public consecutiveErrors = 0;
+  public concurrentWorkers: boolean;
+  public middlewares: GameFunctionMiddleware[] = [];
+
   private workerId: string;
   private gameClient: IGameClient;
+  private stateStore?: StateStore;
+  private stateKey: string;
+  private dryRunRecorder: DryRunRecorder | null = null;
+  private budget: GameBudget | null = null;
+  private telemetry: GameTelemetry;
 
   private agentId: string | null = null;
   private mapId: string | null = null;
   private gameActionResult: ExecutableGameFunctionResponseJSON | null = null;
+  private workerTasks: Record<string, GameAgentWorkerTask> = {};
+  private taskPromises: Record<string, Promise<void> | undefined> = {};
+
+  private paused = false;
+  private stopRequested = false;
+  private wakeUp: (() => void) | null = null;
+  private persisting: Promise<void> = Promise.resolve();
 
   log(msg: string) {
     console.log(`[${this.name}] ${msg}`);
   }
 
-  constructor(apiKey: string, options: IGameAgent) {
+  constructor(apiKey: string, options: GameAgentOptions) {
+    super();
+
     const llmModel = options.llmModel || LLMModel.Llama_3_1_405B_Instruct;
 
-    this.gameClient = apiKey.startsWith("apt-")
-      ? new GameClientV2(apiKey, llmModel)
-      : new GameClient(apiKey, llmModel);
+    this.gameClient =
+      options.gameClient ||
+      (apiKey.startsWith("apt-")
+        ? new GameClientV2(apiKey, llmModel, options.clientOptions)
+        : new GameClient(apiKey, llmModel, options.clientOptions));
     this.workerId = options.workers[0].id;
 
     this.name = options.name;
@@ -44,9 +134,78 @@ class GameAgent implements IGameAgent {
     this.description = options.description;
     this.workers = options.workers;
     this.getAgentState = options.getAgentState;
+    this.maxConsecutiveErrors = options.maxConsecutiveErrors ?? 3;
+    this.stateStore = options.stateStore;
+    this.stateKey = options.stateKey || options.name;
+    this.concurrentWorkers = options.concurrentWorkers || false;
+
+    this.telemetry = new GameTelemetry(options.telemetry, {
+      "game.agent.name": options.name,
+    });
+
+    // Outermost, so function spans cover the time spent in other middleware.
+    if (options.telemetry) {
+      this.use(this.telemetry.middleware());
+    }
+
+    // Registered before the rest so simulated calls never reach approval or
+    // other middleware.
+    if (options.dryRun) {
+      this.dryRunRecorder = new DryRunRecorder(options.sideEffects);
+      this.use(this.dryRunRecorder.middleware());
+    }
+
+    if (options.approvalChannel) {
+      this.use(
+        approvalMiddleware(options.approvalChannel, {
+          functions: options.approvalRequired,
+          onRequest: ({ workerId, submissionId, fnName, fnId, args }) =>
+            this.emit("approvalRequested", {
+              workerId,
+              submissionId,
+              fnName,
+              fnId,
+              args,
+            }),
+          onDecision: ({ workerId, submissionId, fnName, fnId }, decision) =>
+            this.emit("approvalResolved", {
+              workerId,
+              submissionId,
+              fnName,
+              fnId,
+              approved: decision.approved,
+              reason: decision.approved ? undefined : decision.reason,
+            }),
+        })
+      );
+    }
+
+    // Approval and budget both run after other middleware, in this order, so
+    // only approved calls count against quotas.
+    if (options.budget) {
+      this.budget = new GameBudget(options.budget);
+      this.use(this.budget.middleware());
+    }
   }
 
   async init() {
+    const snapshot = this.stateStore
+      ? await this.stateStore.load(this.stateKey)
+      : null;
+
+    // A client with local state can only serve the saved ids if the snapshot
+    // carries that state; otherwise the agent is created again.
+    const resumable =
+      snapshot?.agentId &&
+      snapshot.mapId &&
+      (!this.gameClient.restore || snapshot.gameClient);
+
+    if (snapshot && resumable) {
+      this.restore(snapshot);
+      await this.initWorkers();
+      return;
+    }
+
     const map = await this.gameClient.createMap(this.workers);
     const agent = await this.gameClient.createAgent(
       this.name,
@@ -54,14 +213,22 @@ class GameAgent implements IGameAgent {
       this.description
     );
 
-    this.workers.forEach((worker) => {
-      worker.setAgentId(agent.id);
-      worker.setLogger(this.log.bind(this));
-      worker.setGameClient(this.gameClient);
-    });
-
     this.mapId = map.id;
     this.agentId = agent.id;
+
+    await this.initWorkers();
+    await this.persist();
+  }
+
+  // Every function call made during a dry run, simulated or not.
+  get dryRunReport() {
+    return this.dryRunRecorder ? [...this.dryRunRecorder.entries] : [];
+  }
+
+  // Wraps every function call made by the agent or its workers.
+  use(middleware: GameFunctionMiddleware) {
+    this.middlewares.push(middleware);
+    return this;
   }
 
   setLogger(logger: (agent: GameAgent, msg: string) => void) {
@@ -77,12 +244,22 @@ class GameAgent implements IGameAgent {
     return worker;
   }
 
-  async step(options?: { verbose: boolean }) {
-    if (!this.agentId || !this.mapId) {
+  async step(options?: { verbose?: boolean; signal?: AbortSignal }) {
+    const record = await this.stepRecord(options);
+    return record.actionType;
+  }
+
+  private async stepRecord(options?: {
+    verbose?: boolean;
+    signal?: AbortSignal;
+  }) {
+    const { agentId, mapId } = this;
+
+    if (!agentId || !mapId) {
       throw new Error("Agent not initialized");
     }
 
-    const { verbose } = options || {};
+    const { verbose, signal } = options || {};
 
     const worker = this.workers.find((worker) => worker.id === this.workerId);
 
@@ -90,33 +267,106 @@ class GameAgent implements IGameAgent {
       throw new Error("Worker not found");
     }
 
+    try {
+      const attributes = { "game.worker.id": worker.id };
+      const record = await this.telemetry.span(
+        "game.agent.step",
+        attributes,
+        async (span) => {
+          const record = await this.stepAt(
+            worker,
+            agentId,
+            mapId,
+            verbose,
+            signal
+          );
+
+          this.telemetry.recordStep(span, record, attributes);
+
+          return record;
+        }
+      );
+
+      await this.persist();
+
+      return record;
+    } catch (error) {
+      this.emit("error", { workerId: worker.id, error });
+      throw error;
+    }
+  }
+
+  private async stepAt(
+    worker: GameWorker,
+    agentId: string,
+    mapId: string,
+    verbose?: boolean,
+    signal?: AbortSignal
+  ): Promise<GameStepRecord> {
+    const startedAt = Date.now();
     const environment = worker.getEnvironment
       ? await worker.getEnvironment()
       : {};
     const agentState = this.getAgentState ? await this.getAgentState() : {};
 
+    const reportedTasks = Object.values(this.workerTasks);
+    if (this.concurrentWorkers) {
+      environment.worker_tasks = reportedTasks.map((task) => ({ ...task }));
+    }
+
+    this.emit("beforeStep", { workerId: worker.id, environment, agentState });
+
     if (verbose) {
       this.log(`Environment State: ${JSON.stringify(environment)}`);
       this.log(`Agent State: ${JSON.stringify(agentState)}`);
     }
 
-    const action = await this.gameClient.getAction(
-      this.agentId,
-      this.mapId,
-      worker,
-      this.gameActionResult,
-      environment,
-      agentState
+    this.budget?.countPlannerCall();
+
+    const action = await this.telemetry.planner(
+      "game.planner.get_action",
+      { "game.worker.id": worker.id },
+      () =>
+        this.gameClient.getAction(
+          agentId,
+          mapId,
+          worker,
+          this.gameActionResult,
+          environment,
+          agentState
+        )
     );
 
-    options?.verbose &&
+    this.emit("actionReceived", { workerId: worker.id, action });
+
+    // Finished tasks are only reported to the planner once.
+    reportedTasks
+      .filter((task) => task.status !== "running")
+      .forEach((task) => delete this.workerTasks[task.submission_id]);
+
+    verbose &&
       this.log(`Action State: ${JSON.stringify(action.agent_state || {})}.`);
 
     this.gameActionResult = null;
 
     switch (action.action_type) {
       case ActionType.CallFunction:
-      case ActionType.ContinueFunction:
+      case ActionType.ContinueFunction: {
+        const fn = worker.functions.find(
+          (fn) => fn.name === action.action_args.fn_name
+        );
+
+        if (!fn) {
+          this.rejectAction(
+            action,
+            unknownFunctionFeedback(worker, action.action_args.fn_name),
+            verbose
+          );
+          break;
+        }
+
+        this.consecutiveErrors = 0;
+
         verbose &&
           this.log(
             `Performing function ${
@@ -124,73 +374,456 @@ class GameAgent implements IGameAgent {
             } with args ${JSON.stringify(action.action_args.args)}.`
           );
 
-        const fn = worker.functions.find(
-          (fn) => fn.name === action.action_args.fn_name
-        );
+        const call = {
+          workerId: worker.id,
+          fnName: fn.name,
+          fnId: action.action_args.fn_id,
+          args: unwrapArgs(action.action_args.args),
+        };
+        const startedAt = Date.now();
 
-        if (!fn) {
-          throw new Error("Function not found");
-        }
+        this.emit("functionStart", call);
 
-        const result = await fn.execute(
-          action.action_args.args,
+        const result = await executeWithMiddleware(
+          worker.functionMiddlewares(this.middlewares),
+          { ...call, fn, args: unwrapArgs(action.action_args.args), signal },
           (msg: string) => this.log(msg)
         );
 
+        this.emit("functionEnd", {
+          ...call,
+          status: result.status,
+          feedback: result.feedback,
+          durationMs: Date.now() - startedAt,
+        });
+
         verbose &&
           this.log(`Function status [${result.status}]: ${result.feedback}.`);
 
         this.gameActionResult = result.toJSON(action.action_args.fn_id);
 
         break;
-      case ActionType.GoTo:
-        this.workerId = action.action_args.location_id;
+      }
+      case ActionType.GoTo: {
+        const locationId = action.action_args.location_id;
+
+        if (!this.workers.some((worker) => worker.id === locationId)) {
+          this.rejectAction(
+            action,
+            `Location "${locationId}" does not exist. Valid locations: ${this.workers
+              .map((worker) => worker.id)
+              .join(", ")}.`,
+            verbose
+          );
+          break;
+        }
+
+        this.consecutiveErrors = 0;
+
+        if (this.concurrentWorkers) {
+          await this.dispatchFromPlanner(action, verbose, signal);
+          break;
+        }
+
+        this.workerId = locationId;
+
+        this.emit("workerChanged", { from: worker.id, to: locationId });
 
-        verbose && this.log(`Going to ${action.action_args.location_id}.`);
+        verbose && this.log(`Going to ${locationId}.`);
         break;
+      }
       case ActionType.Wait:
+        this.consecutiveErrors = 0;
+
+        this.emit("wait", { workerId: worker.id });
+
         verbose && this.log(`No actions to perform.`);
-        return action.action_type;
+        break;
       default:
-        return ActionType.Unknown;
+        this.rejectAction(
+          action,
+          `Action type "${action.action_type}" is not supported. Call one of the available functions, go to another location or wait.`,
+          verbose
+        );
     }
 
-    return action.action_type;
+    const isCall = [
+      ActionType.CallFunction,
+      ActionType.ContinueFunction,
+    ].includes(action.action_type);
+
+    return {
+      workerId: worker.id,
+      actionType: action.action_type,
+      thought: action.action_args?.thought || "",
+      fnName: isCall ? action.action_args.fn_name : null,
+      args: isCall ? unwrapArgs(action.action_args.args) : null,
+      response: this.gameActionResult && {
+        status: this.gameActionResult.action_status,
+        feedback: this.gameActionResult.feedback_message,
+      },
+      startedAt,
+      durationMs: Date.now() - startedAt,
+    };
   }
 
-  async run(heartbeatSeconds: number, options?: { verbose: boolean }) {
+  private async dispatchFromPlanner(
+    action: GameAction,
+    verbose?: boolean,
+    signal?: AbortSignal
+  ) {
+    const worker = this.getWorkerById(action.action_args.location_id);
+    const task = action.action_args.thought || this.goal;
+
+    if (this.taskPromises[worker.id]) {
+      this.gameActionResult = new ExecutableGameFunctionResponse(
+        ExecutableGameFunctionStatus.Failed,
+        `${worker.name} is still working on its current task (${worker.pendingTask?.task}). Its progress is reported in worker_tasks.`
+      ).toJSON(action.action_args.fn_id || "");
+      return;
+    }
+
+    await this.dispatchTask(worker.id, task, { verbose, signal });
+
+    this.gameActionResult = new ExecutableGameFunctionResponse(
+      ExecutableGameFunctionStatus.Done,
+      `Started task on ${worker.name}: ${task}. Its progress is reported in worker_tasks.`
+    ).toJSON(action.action_args.fn_id || "");
+  }
+
+  // Submits a task to a worker and runs it in the background. Progress and
+  // results are merged into the environment of the next getAction call when
+  // concurrentWorkers is enabled.
+  async dispatchTask(
+    workerId: string,
+    task: string,
+    options?: { verbose?: boolean; signal?: AbortSignal }
+  ) {
+    const worker = this.getWorkerById(workerId);
+
+    if (this.taskPromises[worker.id]) {
+      throw new Error(`Worker ${worker.id} is already running a task`);
+    }
+
+    const submissionId = await worker.submitTask(task);
+
+    this.trackTask(worker, options);
+
+    return submissionId;
+  }
+
+  // Restarts tasks that were in flight when the agent state was saved.
+  resumeTasks(options?: { verbose?: boolean; signal?: AbortSignal }) {
+    this.workers
+      .filter((worker) => worker.pendingTask && !this.taskPromises[worker.id])
+      .forEach((worker) => this.trackTask(worker, options));
+  }
+
+  async waitForTasks() {
+    await Promise.all(Object.values(this.taskPromises));
+  }
+
+  get hasRunningTasks() {
+    return Object.keys(this.taskPromises).length > 0;
+  }
+
+  private trackTask(
+    worker: GameWorker,
+    options?: { verbose?: boolean; signal?: AbortSignal }
+  ) {
+    const pending = worker.pendingTask!;
+    const entry: GameAgentWorkerTask = {
+      submission_id: pending.submissionId,
+      worker_id: worker.id,
+      task: pending.task || "",
+      status: "running",
+    };
+
+    this.workerTasks[entry.submission_id] = entry;
+    this.emit("taskDispatched", {
+      workerId: worker.id,
+      submissionId: entry.submission_id,
+      task: entry.task,
+    });
+
+    this.taskPromises[worker.id] = worker
+      .resumeTask(options)
+      .then((result) => {
+        entry.status = result?.completed
+          ? "done"
+          : result?.failed
+          ? "failed"
+          : "stopped";
+        entry.result = result?.lastResult?.feedback_message;
+      })
+      .catch((error) => {
+        entry.status = "failed";
+        entry.result = error instanceof Error ? error.message : String(error);
+      })
+      .finally(() => {
+        delete this.taskPromises[worker.id];
+
+        this.emit("taskEnd", {
+          workerId: worker.id,
+          submissionId: entry.submission_id,
+          task: entry.task,
+          status: entry.status,
+          result: entry.result,
+        });
+      });
+  }
+
+  // Feeds an invalid planner action back as a failed result instead of
+  // crashing the loop; run() halts once too many of these happen in a row.
+  private rejectAction(
+    action: GameAction,
+    feedback: string,
+    verbose?: boolean
+  ) {
+    this.consecutiveErrors += 1;
+
+    verbose && this.log(`Invalid action: ${feedback}`);
+
+    this.gameActionResult = new ExecutableGameFunctionResponse(
+      ExecutableGameFunctionStatus.Failed,
+      feedback
+    ).toJSON(action.action_args?.fn_id || "");
+  }
+
+  async run(
+    heartbeatSeconds: number,
+    options?: { verbose?: boolean; signal?: AbortSignal }
+  ): Promise<GameAgentRunSummary> {
+    const steps = this.steps(options);
+
+    while (true) {
+      const next = await steps.next();
+
+      if (next.done) {
+        return next.value;
+      }
+
+      // A stop or abort during the step has no sleeper to wake, so check for
+      // it before sleeping.
+      const interrupted = this.stopRequested || options?.signal?.aborted;
+
+      if (!interrupted && !this.finishReason(next.value.actionType)) {
+        // Don't sleep past the end of the time budget.
+        await this.sleep(
+          Math.min(
+            heartbeatSeconds * 1000,
+            this.budget?.remainingMs() ?? Infinity
+          )
+        );
+      }
+    }
+  }
+
+  // Steps the agent until it waits, is stopped or aborted, or hits the error
+  // limit, yielding a record of every step. Returns the run summary.
+  async *steps(options?: {
+    verbose?: boolean;
+    signal?: AbortSignal;
+  }): AsyncGenerator<GameStepRecord, GameAgentRunSummary> {
     if (!this.agentId || !this.mapId) {
       throw new Error("Agent not initialized");
     }
 
-    while (true) {
-      const action = await this.step({
-        verbose: options?.verbose || false,
-      });
+    const signal = options?.signal;
+    const summary: GameAgentRunSummary = {
+      steps: 0,
+      lastActionType: null,
+      reason: "stopped",
+    };
 
-      if (action === ActionType.Wait || action === ActionType.Unknown) {
-        break;
+    const onAbort = () => this.wake();
+    signal?.addEventListener("abort", onAbort);
+
+    this.stopRequested = false;
+    this.budget?.startRun();
+
+    try {
+      while (true) {
+        while (this.paused && !this.stopRequested && !signal?.aborted) {
+          await this.sleep();
+        }
+
+        if (signal?.aborted) {
+          summary.reason = "aborted";
+          return summary;
+        }
+
+        if (this.stopRequested) {
+          summary.reason = "stopped";
+          return summary;
+        }
+
+        const exhausted = this.budget?.exhausted();
+
+        if (exhausted) {
+          this.log(`Stopping: ${exhausted}.`);
+          this.emit("budgetExhausted", { reason: exhausted });
+          summary.reason = "budget";
+          return summary;
+        }
+
+        const record = await this.stepRecord({
+          verbose: options?.verbose || false,
+          signal,
+        });
+
+        this.budget?.countStep();
+        summary.steps += 1;
+        summary.lastActionType = record.actionType;
+
+        yield record;
+
+        const reason = this.finishReason(record.actionType);
+
+        if (reason === "error_limit") {
+          this.log(
+            `Stopping after ${this.consecutiveErrors} consecutive invalid actions.`
+          );
+        }
+
+        if (reason) {
+          summary.reason = reason;
+          return summary;
+        }
       }
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+      this.stopRequested = false;
+    }
+  }
 
-      await new Promise((resolve) =>
-        setTimeout(resolve, 30 * 1000)
-      );
+  private finishReason(actionType: ActionType) {
+    if (actionType === ActionType.Wait && !this.hasRunningTasks) {
+      return "wait";
+    }
+
+    if (this.consecutiveErrors >= this.maxConsecutiveErrors) {
+      return "error_limit";
     }
+
+    return null;
+  }
+
+  stop() {
+    this.stopRequested = true;
+    this.wake();
+  }
+
+  pause() {
+    this.paused = true;
+  }
+
+  resume() {
+    this.paused = false;
+    this.wake();
+  }
+
+  // Sleeps until the timeout elapses or the loop is woken up by stop, resume
+  // or an abort. Without a timeout it only returns once woken up.
+  private sleep(ms?: number) {
+    return new Promise<void>((resolve) => {
+      const timer = ms === undefined ? null : setTimeout(() => done(), ms);
+      const done = () => {
+        if (timer) {
+          clearTimeout(timer);
+        }
+        this.wakeUp = null;
+        resolve();
+      };
+
+      this.wakeUp = done;
+    });
+  }
+
+  private wake() {
+    this.wakeUp?.();
   }
 
-  save(): Record<string, any> {
+  save(): GameAgentSnapshot {
     return {
+      version: 1,
       agentId: this.agentId,
       mapId: this.mapId,
+      workerId: this.workerId,
       gameActionResult: this.gameActionResult,
+      consecutiveErrors: this.consecutiveErrors,
+      workers: Object.fromEntries(
+        this.workers.map((worker) => [worker.id, worker.save()])
+      ),
+      budget: this.budget?.save(),
+      gameClient: this.gameClient.save?.(),
     };
   }
 
+  // Accepts snapshots from save() as well as the unversioned
+  // { agentId, mapId, gameActionResult } state saved by older releases.
+  restore(snapshot: Partial<GameAgentSnapshot>) {
+    if (snapshot.version !== undefined && snapshot.version > 1) {
+      throw new Error(
+        `Unsupported agent snapshot version: ${snapshot.version}`
+      );
+    }
+
+    this.agentId = snapshot.agentId ?? null;
+    this.mapId = snapshot.mapId ?? null;
+    this.gameActionResult = snapshot.gameActionResult ?? null;
+    this.consecutiveErrors = snapshot.consecutiveErrors ?? 0;
+
+    if (
+      snapshot.workerId &&
+      this.workers.some((worker) => worker.id === snapshot.workerId)
+    ) {
+      this.workerId = snapshot.workerId;
+    }
+
+    this.workers.forEach((worker) => {
+      worker.restore(snapshot.workers?.[worker.id] ?? {});
+    });
+
+    if (snapshot.budget) {
+      this.budget?.restore(snapshot.budget);
+    }
+
+    if (snapshot.gameClient) {
+      this.gameClient.restore?.(snapshot.gameClient);
+    }
+  }
+
+  // Steps and background worker tasks persist concurrently. Saves are
+  // chained, and each takes its snapshot when it runs, so the store always
+  // ends up with the latest state whatever it does with concurrent writes.
+  persist() {
+    const stateStore = this.stateStore;
+
+    if (!stateStore) {
+      return Promise.resolve();
+    }
+
+    const saving = this.persisting
+      .catch(() => undefined)
+      .then(() => stateStore.save(this.stateKey, this.save()));
+
+    this.persisting = saving;
+
+    return saving;
+  }
+
   async initWorkers() {
     this.workers.forEach((worker) => {
       worker.setAgentId(this.agentId || "");
       worker.setLogger(this.log.bind(this));
       worker.setGameClient(this.gameClient);
+      worker.setAgentMiddlewares(this.middlewares);
+      worker.setBudget(this.budget);
+      worker.setTelemetry(this.telemetry);
+      worker.setStateChangeListener(
+        this.stateStore ? () => this.persist() : null
+      );
     });
   }
 
@@ -199,19 +832,23 @@ class GameAgent implements IGameAgent {
     name: string,
     goal: string,
     description: string,
-    savedState: Record<string, any>,
-    workers: GameWorker[]
+    savedState: Partial<GameAgentSnapshot>,
+    workers: GameWorker[],
+    options?: Omit<
+      GameAgentOptions,
+      "name" | "goal" | "description" | "workers"
+    >
   ): Promise<GameAgent> {
     const agent = new GameAgent(apiKey, {
+      ...options,
       name: name,
       goal: goal,
       description: description,
       workers,
     });
 
-    agent.agentId = savedState.agentId;
-    agent.mapId = savedState.mapId;
-    agent.gameActionResult = savedState.gameActionResult;
+    agent.restore(savedState);
+    await agent.initWorkers();
 
     return agent;
   }
@@ -1,24 +1,93 @@
-import axios, { Axios } from "axios";
+import { Axios, AxiosRequestConfig } from "axios";
 import GameWorker from "./worker";
 import { ExecutableGameFunctionResponseJSON } from "./function";
 import {
   GameAction,
   GameAgent,
+  GameClientOptions,
+  IGameChatClient,
   IGameClient,
   LLMModel,
   Map,
 } from "./interface/GameClient";
+import { GameChatResponse } from "./chatAgent";
+import {
+  createHttpClient,
+  GameAuthError,
+  RequestScheduler,
+  requestConfig,
+} from "./http";
+
+// Used when the token carries no readable expiry.
+const DEFAULT_TOKEN_TTL_MS = 30 * 60 * 1000;
+// Refresh this long before expiry so in-flight requests don't race it.
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+
+function tokenExpiry(token: string) {
+  try {
+    const payload = JSON.parse(
+      Buffer.from(token.split(".")[1], "base64").toString("utf8")
+    );
+
+    if (typeof payload.exp === "number") {
+      return payload.exp * 1000;
+    }
+  } catch (e) {
+    // Not a JWT; fall through to the default lifetime.
+  }
+
+  return Date.now() + DEFAULT_TOKEN_TTL_MS;
+}
 
-class GameClient implements IGameClient {
+class GameClient implements IGameClient, IGameChatClient {
   public client: Axios | null = null;
-  private runnerUrl = "https://game.virtuals.io";
+  private runnerUrl: string;
+  private authUrl: string;
+  private requestConfig: AxiosRequestConfig = {};
+  private accessToken: string | null = null;
+  private tokenExpiresAt = 0;
+  private refreshing: Promise<void> | null = null;
+  private scheduler: RequestScheduler;
 
-  constructor(private apiKey: string, private llmModel: LLMModel | string) {}
+  constructor(
+    private apiKey: string,
+    private llmModel: LLMModel | string,
+    private options: GameClientOptions = {}
+  ) {
+    this.runnerUrl = options.baseUrl || "https://game.virtuals.io";
+    this.authUrl =
+      options.authUrl || "https://api.virtuals.io/api/accesses/tokens";
+    this.scheduler = new RequestScheduler(options);
+  }
+
+  // Fetches an access token unless the cached one is still valid. Concurrent
+  // callers share a single refresh.
+  async init(forceRefresh = false) {
+    const valid =
+      this.client &&
+      this.accessToken &&
+      Date.now() < this.tokenExpiresAt - TOKEN_REFRESH_MARGIN_MS;
+
+    if (valid && !forceRefresh) {
+      return;
+    }
+
+    if (!this.refreshing) {
+      this.refreshing = this.refreshToken().finally(() => {
+        this.refreshing = null;
+      });
+    }
+
+    return this.refreshing;
+  }
 
-  async init() {
+  private async refreshToken() {
     const accessToken = await this.getAccessToken();
 
-    this.client = axios.create({
+    this.accessToken = accessToken;
+    this.tokenExpiresAt = tokenExpiry(accessToken);
+    this.client = createHttpClient(this.options);
+    this.requestConfig = requestConfig(this.options, {
       baseURL: this.runnerUrl,
       headers: {
         "Content-Type": "application/json",
@@ -29,27 +98,24 @@ class GameClient implements IGameClient {
   }
 
   async getAccessToken() {
-    const result = await axios.post<{ data: { accessToken: string } }>(
-      "https://api.virtuals.io/api/accesses/tokens",
-      {},
-      {
-        headers: {
-          "x-api-key": this.apiKey,
-        },
-      }
+    const config = requestConfig(this.options, {
+      baseURL: this.authUrl,
+      headers: {
+        "x-api-key": this.apiKey,
+      },
+    });
+
+    const result = await this.scheduler.send(() =>
+      createHttpClient(this.options).post<{
+        data: { accessToken: string };
+      }>(this.authUrl, {}, config)
     );
 
     return result.data.data.accessToken;
   }
 
   private async post<T>(url: string, data: any) {
-    await this.init();
-
-    if (!this.client) {
-      throw new Error("Client is not initialized");
-    }
-
-    const result = await this.client.post<T>("/prompts", {
+    const body = {
       data: {
         method: "post",
         headers: {
@@ -58,7 +124,36 @@ class GameClient implements IGameClient {
         route: url,
         data,
       },
-    });
+    };
+
+    await this.init();
+
+    const token = this.accessToken;
+
+    try {
+      return await this.send<T>(body);
+    } catch (e) {
+      if (!(e instanceof GameAuthError) || e.status !== 401) {
+        throw e;
+      }
+
+      // The token was revoked or expired early. Refresh it once, unless a
+      // concurrent request already has, and retry.
+      await this.init(this.accessToken === token);
+
+      return this.send<T>(body);
+    }
+  }
+
+  private async send<T>(body: Record<string, any>) {
+    if (!this.client) {
+      throw new Error("Client is not initialized");
+    }
+
+    const client = this.client;
+    const result = await this.scheduler.send(() =>
+      client.post<T>("/prompts", body, this.requestConfig)
+    );
 
     return result.data;
   }
@@ -148,6 +243,55 @@ class GameClient implements IGameClient {
 
     return result.data;
   }
+
+  async createChat(data: Record<string, any>): Promise<string> {
+    const result = await this.post<{ data: { conversation_id: string } }>(
+      "/v2/conversation",
+      data
+    );
+
+    const chatId = result.data.conversation_id;
+    if (!chatId) {
+      throw new Error("Agent did not return a conversation_id for the chat.");
+    }
+    return chatId;
+  }
+
+  async updateChat(
+    conversationId: string,
+    data: Record<string, any>
+  ): Promise<GameChatResponse> {
+    const result = await this.post<{ data: GameChatResponse }>(
+      `/v2/conversation/${conversationId}/next`,
+      data
+    );
+
+    return result.data;
+  }
+
+  async reportFunction(
+    conversationId: string,
+    data: Record<string, any>
+  ): Promise<GameChatResponse> {
+    const result = await this.post<{ data: GameChatResponse }>(
+      `/v2/conversation/${conversationId}/function/result`,
+      data
+    );
+
+    return result.data;
+  }
+
+  async endChat(
+    conversationId: string,
+    data: Record<string, any>
+  ): Promise<GameChatResponse> {
+    const result = await this.post<{ data: GameChatResponse }>(
+      `/v2/conversation/${conversationId}/end`,
+      data
+    );
+
+    return result.data;
+  }
 }
 
 export default GameClient;
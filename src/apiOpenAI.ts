@@ -0,0 +1,349 @@
+import { Axios, AxiosRequestConfig } from "axios";
+import { randomUUID } from "crypto";
+import GameWorker from "./worker";
+import { ExecutableGameFunctionResponseJSON } from "./function";
+import {
+  ActionType,
+  GameAction,
+  GameAgent,
+  GameClientOptions,
+  IGameClient,
+  Map as GameMap,
+} from "./interface/GameClient";
+import { createHttpClient, RequestScheduler, requestConfig } from "./http";
+
+export interface OpenAIGameClientOptions
+  extends Omit<GameClientOptions, "baseUrl" | "authUrl"> {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  temperature?: number;
+  headers?: Record<string, string>;
+  jsonMode?: boolean;
+  maxHistory?: number;
+}
+
+interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+interface ChatCompletionResponse {
+  choices: { message: { content: string | null } }[];
+}
+
+interface PlannerContext {
+  history: string[];
+  pendingActions: Record<string, string>;
+}
+
+interface LocalAgent extends GameAgent, PlannerContext {}
+
+interface LocalTask extends PlannerContext {
+  agentId: string;
+  task: string;
+}
+
+type Location = { id: string; name: string; description: string };
+
+export interface OpenAIGameClientState {
+  maps: Record<string, Location[]>;
+  agents: Record<string, LocalAgent>;
+  tasks: Record<string, LocalTask>;
+}
+
+const HIGH_LEVEL_PROMPT = `You are the high-level planner of an autonomous agent.
+Pick the single next action that best advances the agent's goal.
+You may call one of the functions available at the current location, move to another location, or wait when there is nothing useful to do.
+Respond with a single JSON object and nothing else, using one of these shapes:
+{"action_type": "call_function", "action_args": {"fn_name": "<name>", "args": {"<arg>": <value>}, "thought": "<reasoning>"}}
+{"action_type": "go_to", "action_args": {"location_id": "<location id>", "thought": "<reasoning>"}}
+{"action_type": "wait", "action_args": {"thought": "<reasoning>"}}`;
+
+const TASK_PROMPT = `You are the low-level planner of a worker executing a task.
+Pick the single next function call that advances the task, or wait once the task is complete or cannot progress.
+Respond with a single JSON object and nothing else, using one of these shapes:
+{"action_type": "call_function", "action_args": {"fn_name": "<name>", "args": {"<arg>": <value>}, "thought": "<reasoning>"}}
+{"action_type": "wait", "action_args": {"thought": "<reasoning>"}}`;
+
+class OpenAIGameClient implements IGameClient {
+  public client: Axios;
+  private requestConfig: AxiosRequestConfig;
+  private scheduler: RequestScheduler;
+
+  private maps: Record<string, Location[]> = {};
+  private agents: Record<string, LocalAgent> = {};
+  private tasks: Record<string, LocalTask> = {};
+
+  constructor(private options: OpenAIGameClientOptions) {
+    this.client = createHttpClient(options);
+    this.scheduler = new RequestScheduler(options);
+    this.requestConfig = requestConfig(options, {
+      baseURL: options.baseUrl,
+      headers: {
+        "Content-Type": "application/json",
+        ...(options.apiKey
+          ? { Authorization: `Bearer ${options.apiKey}` }
+          : {}),
+      },
+    });
+  }
+
+  // The planner's agents, maps and tasks, for GameAgent snapshots. Without
+  // them the ids restored after a restart can't be served.
+  save(): OpenAIGameClientState {
+    return JSON.parse(
+      JSON.stringify({
+        maps: this.maps,
+        agents: this.agents,
+        tasks: this.tasks,
+      })
+    );
+  }
+
+  restore(state: Partial<OpenAIGameClientState>) {
+    this.maps = { ...this.maps, ...state.maps };
+    this.agents = { ...this.agents, ...state.agents };
+    this.tasks = { ...this.tasks, ...state.tasks };
+  }
+
+  async createMap(workers: GameWorker[]): Promise<GameMap> {
+    const id = randomUUID();
+
+    this.maps[id] = workers.map((worker) => ({
+      id: worker.id,
+      name: worker.name,
+      description: worker.description,
+    }));
+
+    return { id };
+  }
+
+  async createAgent(
+    name: string,
+    goal: string,
+    description: string
+  ): Promise<GameAgent> {
+    const id = randomUUID();
+
+    this.agents[id] = {
+      id,
+      name,
+      goal,
+      description,
+      history: [],
+      pendingActions: {},
+    };
+
+    return { id, name, goal, description };
+  }
+
+  async getAction(
+    agentId: string,
+    mapId: string,
+    worker: GameWorker,
+    gameActionResult: ExecutableGameFunctionResponseJSON | null,
+    environment: Record<string, any>,
+    agentState: Record<string, any>
+  ): Promise<GameAction> {
+    const agent = this.agents[agentId];
+    const locations = this.maps[mapId];
+
+    if (!agent) {
+      throw new Error(`Agent ${agentId} was not created by this client`);
+    }
+
+    if (!locations) {
+      throw new Error(`Map ${mapId} was not created by this client`);
+    }
+
+    this.recordResult(agent, gameActionResult);
+
+    const prompt = [
+      `Agent name: ${agent.name}`,
+      `Goal: ${agent.goal}`,
+      `Description: ${agent.description}`,
+      `Agent state: ${JSON.stringify(agentState)}`,
+      `Current location: ${worker.id} (${worker.name}) - ${worker.description}`,
+      `Locations: ${JSON.stringify(locations)}`,
+      `Functions at current location: ${JSON.stringify(
+        worker.functions.map((fn) => fn.toJSON())
+      )}`,
+      `Environment: ${JSON.stringify(environment)}`,
+      `Recent actions:\n${this.formatHistory(agent)}`,
+    ].join("\n\n");
+
+    return this.plan(agent, HIGH_LEVEL_PROMPT, prompt);
+  }
+
+  async setTask(agentId: string, task: string): Promise<string> {
+    if (!this.agents[agentId]) {
+      throw new Error(`Agent ${agentId} was not created by this client`);
+    }
+
+    const submissionId = randomUUID();
+
+    this.tasks[submissionId] = {
+      agentId,
+      task,
+      history: [],
+      pendingActions: {},
+    };
+
+    return submissionId;
+  }
+
+  async getTaskAction(
+    agentId: string,
+    submissionId: string,
+    worker: GameWorker,
+    gameActionResult: ExecutableGameFunctionResponseJSON | null,
+    environment: Record<string, any>
+  ): Promise<GameAction> {
+    const agent = this.agents[agentId];
+    const task = this.tasks[submissionId];
+
+    if (!agent || !task || task.agentId !== agentId) {
+      throw new Error(`Task ${submissionId} was not created by this client`);
+    }
+
+    this.recordResult(task, gameActionResult);
+
+    const prompt = [
+      `Agent description: ${agent.description}`,
+      `Worker: ${worker.name} - ${worker.description}`,
+      `Task: ${task.task}`,
+      `Functions: ${JSON.stringify(worker.functions.map((fn) => fn.toJSON()))}`,
+      `Environment: ${JSON.stringify(environment)}`,
+      `Actions taken for this task:\n${this.formatHistory(task)}`,
+    ].join("\n\n");
+
+    return this.plan(task, TASK_PROMPT, prompt);
+  }
+
+  private async plan(
+    context: PlannerContext,
+    system: string,
+    prompt: string
+  ): Promise<GameAction> {
+    const messages: ChatMessage[] = [
+      { role: "system", content: system },
+      { role: "user", content: prompt },
+    ];
+
+    const result = await this.scheduler.send(() =>
+      this.client.post<ChatCompletionResponse>(
+        "/chat/completions",
+        {
+          model: this.options.model,
+          messages,
+          temperature: this.options.temperature ?? 0.2,
+          ...(this.options.jsonMode
+            ? { response_format: { type: "json_object" } }
+            : {}),
+        },
+        this.requestConfig
+      )
+    );
+
+    const content = result.data.choices?.[0]?.message?.content || "";
+    const action = this.parseAction(content);
+
+    if (action.action_type === ActionType.CallFunction) {
+      context.pendingActions[action.action_args.fn_id] =
+        action.action_args.fn_name;
+    } else if (action.action_type === ActionType.GoTo) {
+      this.pushHistory(context, `Moved to ${action.action_args.location_id}`);
+    } else if (action.action_type === ActionType.Unknown) {
+      this.pushHistory(
+        context,
+        `Replied without a valid JSON action: ${content.slice(0, 200)}`
+      );
+    }
+
+    return action;
+  }
+
+  private parseAction(content: string): GameAction {
+    const start = content.indexOf("{");
+    const end = content.lastIndexOf("}");
+
+    let parsed: any;
+    try {
+      parsed = JSON.parse(content.slice(start, end + 1));
+    } catch (e) {
+      // Keep the reply so the agent can feed it back as an invalid action
+      // instead of ending the run.
+      return {
+        action_type: ActionType.Unknown,
+        action_args: {
+          location_id: "",
+          task_id: "",
+          fn_id: randomUUID(),
+          fn_name: "",
+          args: {},
+          thought: content,
+        },
+      };
+    }
+
+    const actionType = Object.values(ActionType).includes(parsed?.action_type)
+      ? (parsed.action_type as ActionType)
+      : ActionType.Unknown;
+    const actionArgs = parsed?.action_args || {};
+    const args: Record<string, { value: any }> = {};
+
+    Object.entries(actionArgs.args || {}).forEach(([key, value]) => {
+      args[key] =
+        value && typeof value === "object" && "value" in value
+          ? (value as { value: any })
+          : { value };
+    });
+
+    return {
+      action_type: actionType,
+      action_args: {
+        location_id: actionArgs.location_id || "",
+        task_id: actionArgs.task_id || "",
+        fn_id: randomUUID(),
+        fn_name: actionArgs.fn_name || "",
+        args,
+        thought: actionArgs.thought || "",
+      },
+    };
+  }
+
+  private recordResult(
+    context: PlannerContext,
+    gameActionResult: ExecutableGameFunctionResponseJSON | null
+  ) {
+    if (!gameActionResult) {
+      return;
+    }
+
+    const fnName =
+      context.pendingActions[gameActionResult.action_id] || "function";
+    delete context.pendingActions[gameActionResult.action_id];
+
+    this.pushHistory(
+      context,
+      `Called ${fnName} [${gameActionResult.action_status}]: ${gameActionResult.feedback_message}`
+    );
+  }
+
+  private pushHistory(context: PlannerContext, entry: string) {
+    context.history.push(entry);
+    context.history.splice(
+      0,
+      context.history.length - (this.options.maxHistory ?? 10)
+    );
+  }
+
+  private formatHistory(context: PlannerContext) {
+    return context.history.length
+      ? context.history.map((entry) => `- ${entry}`).join("\n")
+      : "None";
+  }
+}
+
+export default OpenAIGameClient;
@@ -0,0 +1,185 @@
+import { Axios } from "axios";
+import GameWorker from "./worker";
+import { ExecutableGameFunctionResponseJSON } from "./function";
+import {
+  ActionType,
+  GameAction,
+  GameAgent,
+  IGameClient,
+  Map,
+} from "./interface/GameClient";
+
+export interface ScriptedGameClientRequest {
+  method: "getAction" | "getTaskAction";
+  agentId: string;
+  mapId?: string;
+  submissionId?: string;
+  location: string;
+  environment: Record<string, any>;
+  agent_state?: Record<string, any>;
+  functions: Object[];
+  current_action: ExecutableGameFunctionResponseJSON | null;
+}
+
+export interface ScriptedGameClientTask {
+  agentId: string;
+  submissionId: string;
+  task: string;
+}
+
+class ScriptedGameClient implements IGameClient {
+  public client: Axios | null = null;
+  public requests: ScriptedGameClientRequest[] = [];
+  public tasks: ScriptedGameClientTask[] = [];
+
+  private actions: GameAction[];
+  private actionCount = 0;
+
+  constructor(actions: GameAction[] = []) {
+    this.actions = [...actions];
+  }
+
+  static callFunction(
+    fnName: string,
+    args: Record<string, any> = {},
+    options?: { fnId?: string; thought?: string }
+  ): GameAction {
+    return {
+      action_type: ActionType.CallFunction,
+      action_args: {
+        location_id: "",
+        task_id: "",
+        fn_id: options?.fnId || "",
+        fn_name: fnName,
+        args: Object.fromEntries(
+          Object.entries(args).map(([key, value]) => [key, { value }])
+        ),
+        thought: options?.thought || "",
+      },
+    };
+  }
+
+  static goTo(locationId: string, thought?: string): GameAction {
+    return {
+      action_type: ActionType.GoTo,
+      action_args: {
+        location_id: locationId,
+        task_id: "",
+        fn_id: "",
+        fn_name: "",
+        args: {},
+        thought: thought || "",
+      },
+    };
+  }
+
+  static wait(thought?: string): GameAction {
+    return {
+      action_type: ActionType.Wait,
+      action_args: {
+        location_id: "",
+        task_id: "",
+        fn_id: "",
+        fn_name: "",
+        args: {},
+        thought: thought || "",
+      },
+    };
+  }
+
+  enqueue(...actions: GameAction[]) {
+    this.actions.push(...actions);
+    return this;
+  }
+
+  get pending() {
+    return this.actions.length;
+  }
+
+  async createMap(workers: GameWorker[]): Promise<Map> {
+    return { id: "scripted-map" };
+  }
+
+  async createAgent(
+    name: string,
+    goal: string,
+    description: string
+  ): Promise<GameAgent> {
+    return { id: "scripted-agent", name, goal, description };
+  }
+
+  async getAction(
+    agentId: string,
+    mapId: string,
+    worker: GameWorker,
+    gameActionResult: ExecutableGameFunctionResponseJSON | null,
+    environment: Record<string, any>,
+    agentState: Record<string, any>
+  ): Promise<GameAction> {
+    this.requests.push({
+      method: "getAction",
+      agentId,
+      mapId,
+      location: worker.id,
+      environment,
+      agent_state: agentState,
+      functions: worker.functions.map((fn) => fn.toJSON()),
+      current_action: gameActionResult,
+    });
+
+    return this.next();
+  }
+
+  async setTask(agentId: string, task: string): Promise<string> {
+    const submissionId = `scripted-task-${this.tasks.length + 1}`;
+
+    this.tasks.push({ agentId, submissionId, task });
+
+    return submissionId;
+  }
+
+  async getTaskAction(
+    agentId: string,
+    submissionId: string,
+    worker: GameWorker,
+    gameActionResult: ExecutableGameFunctionResponseJSON | null,
+    environment: Record<string, any>
+  ): Promise<GameAction> {
+    this.requests.push({
+      method: "getTaskAction",
+      agentId,
+      submissionId,
+      location: worker.id,
+      environment,
+      functions: worker.functions.map((fn) => fn.toJSON()),
+      current_action: gameActionResult,
+    });
+
+    return this.next();
+  }
+
+  private next(): GameAction {
+    const action = this.actions.shift() || ScriptedGameClient.wait();
+
+    this.actionCount += 1;
+
+    // Give every function call a stable id so results can be matched up in
+    // the recorded requests.
+    if (
+      action.action_type === ActionType.CallFunction &&
+      !action.action_args.fn_id
+    ) {
+      return {
+        ...action,
+        action_args: {
+          ...action.action_args,
+          fn_id: `scripted-action-${this.actionCount}`,
+        },
+      };
+    }
+
+    return action;
+  }
+}
+
+export default ScriptedGameClient;
@@ -1,21 +1,33 @@
-import axios, { Axios } from "axios";
+import { Axios, AxiosRequestConfig } from "axios";
 import { ExecutableGameFunctionResponseJSON } from "./function";
 import {
   GameAction,
   GameAgent,
+  GameClientOptions,
+  IGameChatClient,
   IGameClient,
   LLMModel,
   Map,
 } from "./interface/GameClient";
+import { createHttpClient, RequestScheduler, requestConfig } from "./http";
 import GameWorker from "./worker";
 import { GameChatResponse } from "./chatAgent";
 
-class GameClientV2 implements IGameClient {
+class GameClientV2 implements IGameClient, IGameChatClient {
   public client: Axios;
-  private baseUrl = "https://sdk.game.virtuals.io/v2";
-
-  constructor(private apiKey: string, private llmModel: LLMModel | string) {
-    this.client = axios.create({
+  private baseUrl: string;
+  private requestConfig: AxiosRequestConfig;
+  private scheduler: RequestScheduler;
+
+  constructor(
+    private apiKey: string,
+    private llmModel: LLMModel | string,
+    options: GameClientOptions = {}
+  ) {
+    this.baseUrl = options.baseUrl || "https://sdk.game.virtuals.io/v2";
+    this.client = createHttpClient(options);
+    this.scheduler = new RequestScheduler(options);
+    this.requestConfig = requestConfig(options, {
       baseURL: this.baseUrl,
       headers: {
         "Content-Type": "application/json",
@@ -25,8 +37,14 @@ class GameClientV2 implements IGameClient {
     });
   }
 
+  private post<T>(url: string, data: any) {
+    return this.scheduler.send(() =>
+      this.client.post<T>(url, data, this.requestConfig)
+    );
+  }
+
   async createMap(workers: GameWorker[]): Promise<Map> {
-    const result = await this.client.post<{ data: Map }>("/maps", {
+    const result = await this.post<{ data: Map }>("/maps", {
       data: {
         locations: workers.map((worker) => ({
           id: worker.id,
@@ -44,7 +62,7 @@ class GameClientV2 implements IGameClient {
     goal: string,
     description: string
   ): Promise<GameAgent> {
-    const result = await this.client.post<{ data: GameAgent }>("/agents", {
+    const result = await this.post<{ data: GameAgent }>("/agents", {
       data: {
         name,
         goal,
@@ -76,7 +94,7 @@ class GameClientV2 implements IGameClient {
       payload.current_action = gameActionResult;
     }
 
-    const result = await this.client.post<{ data: GameAction }>(
+    const result = await this.post<{ data: GameAction }>(
       `/agents/${agentId}/actions`,
       {
         data: payload,
@@ -86,7 +104,7 @@ class GameClientV2 implements IGameClient {
     return result.data.data;
   }
   async setTask(agentId: string, task: string): Promise<string> {
-    const result = await this.client.post<{ data: { submission_id: string } }>(
+    const result = await this.post<{ data: { submission_id: string } }>(
       `/agents/${agentId}/tasks`,
       {
         data: { task },
@@ -112,7 +130,7 @@ class GameClientV2 implements IGameClient {
       payload.action_result = gameActionResult;
     }
 
-    const result = await this.client.post<{ data: GameAction }>(
+    const result = await this.post<{ data: GameAction }>(
       `/agents/${agentId}/tasks/${submissionId}/next`,
       {
         data: payload,
@@ -123,7 +141,7 @@ class GameClientV2 implements IGameClient {
   }
 
   async createChat(data: Record<string, any>): Promise<string> {
-    const response = await this.client.post<{
+    const response = await this.post<{
       data: { conversation_id: string };
     }>("/conversation", { data });
 
@@ -138,7 +156,7 @@ class GameClientV2 implements IGameClient {
     conversationId: string,
     data: Record<string, any>
   ): Promise<GameChatResponse> {
-    const response = await this.client.post<{ data: GameChatResponse }>(
+    const response = await this.post<{ data: GameChatResponse }>(
       `/conversation/${conversationId}/next`,
       { data }
     );
@@ -150,7 +168,7 @@ class GameClientV2 implements IGameClient {
     conversationId: string,
     data: Record<string, any>
   ): Promise<GameChatResponse> {
-    const response = await this.client.post<{ data: GameChatResponse }>(
+    const response = await this.post<{ data: GameChatResponse }>(
       `/conversation/${conversationId}/function/result`,
       { data }
     );
@@ -162,7 +180,7 @@ class GameClientV2 implements IGameClient {
     conversationId: string,
     data: Record<string, any>
   ): Promise<GameChatResponse> {
-    const response = await this.client.post<{ data: GameChatResponse }>(
+    const response = await this.post<{ data: GameChatResponse }>(
       `/conversation/${conversationId}/end`,
       { data }
     );
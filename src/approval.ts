@@ -0,0 +1,219 @@
+import axios, { AxiosInstance } from "axios";
+import readline from "readline";
+import {
+  ExecutableGameFunctionResponse,
+  ExecutableGameFunctionStatus,
+} from "./function";
+import { GameFunctionMiddleware, innermost } from "./middleware";
+
+export interface GameApprovalRequest {
+  fnName: string;
+  fnId: string;
+  description: string;
+  workerId: string;
+  submissionId?: string;
+  args: Record<string, any>;
+}
+
+export type GameApprovalDecision =
+  // args, when given, replace the planner's arguments.
+  | { approved: true; args?: Record<string, any> }
+  | { approved: false; reason?: string };
+
+// Delivers approval requests to a reviewer and resolves with their decision.
+export interface ApprovalChannel {
+  request(
+    request: GameApprovalRequest,
+    signal?: AbortSignal
+  ): Promise<GameApprovalDecision>;
+}
+
+// Holds back functions that need sign-off until the channel approves them.
+// It runs after all other middleware, so the reviewer sees the arguments the
+// function will actually be called with.
+export function approvalMiddleware(
+  channel: ApprovalChannel,
+  options?: {
+    functions?: string[];
+    onRequest?: (request: GameApprovalRequest) => void;
+    onDecision?: (
+      request: GameApprovalRequest,
+      decision: GameApprovalDecision
+    ) => void;
+  }
+): GameFunctionMiddleware {
+  return innermost(async (call, next) => {
+    const flagged =
+      call.fn.requiresApproval || options?.functions?.includes(call.fn.name);
+
+    if (!flagged) {
+      return next();
+    }
+
+    const request: GameApprovalRequest = {
+      fnName: call.fn.name,
+      fnId: call.fnId,
+      description: call.fn.description,
+      workerId: call.workerId,
+      submissionId: call.submissionId,
+      args: call.args,
+    };
+
+    options?.onRequest?.(request);
+
+    let decision: GameApprovalDecision;
+
+    try {
+      decision = await channel.request(request, call.signal);
+    } catch (e) {
+      // Fail closed: without a decision the call is denied, but the run goes
+      // on.
+      const reason = `approval unavailable: ${
+        e instanceof Error ? e.message : String(e)
+      }`;
+
+      options?.onDecision?.(request, { approved: false, reason });
+
+      return new ExecutableGameFunctionResponse(
+        ExecutableGameFunctionStatus.Failed,
+        `${call.fn.name} was not run, ${reason}`
+      );
+    }
+
+    options?.onDecision?.(request, decision);
+
+    if (!decision.approved) {
+      return new ExecutableGameFunctionResponse(
+        ExecutableGameFunctionStatus.Failed,
+        `${call.fn.name} was rejected by a reviewer: ${
+          decision.reason || "no reason given"
+        }`
+      );
+    }
+
+    if (decision.args) {
+      call.args = decision.args;
+    }
+
+    return next();
+  });
+}
+
+// Asks on the terminal. Requests are shown one at a time.
+export class CliApprovalChannel implements ApprovalChannel {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private input: NodeJS.ReadableStream = process.stdin,
+    private output: NodeJS.WritableStream = process.stdout
+  ) {}
+
+  request(request: GameApprovalRequest, signal?: AbortSignal) {
+    const decision = this.queue.then(() => this.prompt(request, signal));
+    this.queue = decision.catch(() => undefined);
+    return decision;
+  }
+
+  private async prompt(
+    request: GameApprovalRequest,
+    signal?: AbortSignal
+  ): Promise<GameApprovalDecision> {
+    if (signal?.aborted) {
+      throw new Error("Approval request was aborted");
+    }
+
+    const rl = readline.createInterface({
+      input: this.input,
+      output: this.output,
+    });
+    // Closing the interface, on EOF or abort, rejects the pending question.
+    const question = (query: string) =>
+      new Promise<string>((resolve, reject) => {
+        const onClose = () =>
+          reject(
+            new Error(
+              signal?.aborted
+                ? "Approval request was aborted"
+                : "Approval input closed before a decision was made"
+            )
+          );
+
+        rl.once("close", onClose);
+        rl.question(query, (answer) => {
+          rl.off("close", onClose);
+          resolve(answer);
+        });
+      });
+    const onAbort = () => rl.close();
+
+    signal?.addEventListener("abort", onAbort);
+
+    try {
+      this.output.write(
+        `\n${request.fnName} (${
+          request.workerId
+        }) wants to run with:\n${JSON.stringify(request.args, null, 2)}\n`
+      );
+
+      while (true) {
+        const answer = (
+          await question("Approve? y / n <reason> / e <JSON args>: ")
+        ).trim();
+
+        if (/^y(es)?$/i.test(answer)) {
+          return { approved: true };
+        }
+
+        const rejected = answer.match(/^no?(\s+(.*))?$/i);
+        if (rejected) {
+          return { approved: false, reason: rejected[2] };
+        }
+
+        const edited = answer.match(/^e(dit)?\s+(.+)$/i);
+        if (edited) {
+          try {
+            return { approved: true, args: JSON.parse(edited[2]) };
+          } catch (e) {
+            this.output.write("Arguments must be a JSON object.\n");
+          }
+        }
+      }
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+      rl.close();
+    }
+  }
+}
+
+// POSTs each request to a URL that replies with the decision once a reviewer
+// has made it, e.g. after a Telegram DM or Slack message is answered.
+export class WebhookApprovalChannel implements ApprovalChannel {
+  constructor(
+    private url: string,
+    private options: {
+      headers?: Record<string, string>;
+      timeout?: number;
+      httpClient?: AxiosInstance;
+    } = {}
+  ) {}
+
+  async request(request: GameApprovalRequest, signal?: AbortSignal) {
+    const response = await (this.options.httpClient || axios).post(
+      this.url,
+      request,
+      {
+        headers: this.options.headers,
+        timeout: this.options.timeout,
+        signal,
+      }
+    );
+
+    if (typeof response.data?.approved !== "boolean") {
+      throw new Error(
+        `Approval webhook ${this.url} returned no decision for ${request.fnName}`
+      );
+    }
+
+    return response.data as GameApprovalDecision;
+  }
+}
@@ -0,0 +1,155 @@
+import { GameFunctionArg } from "./function";
+
+type ArgSpec = Omit<GameFunctionArg, "name" | "description">;
+
+const TRUE_VALUES = ["true", "yes", "1"];
+const FALSE_VALUES = ["false", "no", "0"];
+
+function parseJson(value: string) {
+  try {
+    return JSON.parse(value);
+  } catch (e) {
+    return undefined;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function coerceValue(
+  spec: ArgSpec,
+  value: any,
+  path: string,
+  errors: string[]
+): any {
+  switch (spec.type) {
+    case "string":
+      if (typeof value === "string") {
+        return value;
+      }
+
+      return typeof value === "object" ? JSON.stringify(value) : String(value);
+    case "number":
+    case "integer": {
+      const number =
+        typeof value === "string" && value.trim() !== ""
+          ? Number(value)
+          : value;
+
+      if (typeof number !== "number" || !Number.isFinite(number)) {
+        errors.push(`"${path}" must be a number, got ${JSON.stringify(value)}`);
+        return value;
+      }
+
+      if (spec.type === "integer" && !Number.isInteger(number)) {
+        errors.push(`"${path}" must be an integer, got ${number}`);
+      }
+
+      return number;
+    }
+    case "boolean": {
+      if (typeof value === "boolean") {
+        return value;
+      }
+
+      const normalized = String(value).trim().toLowerCase();
+
+      if (TRUE_VALUES.includes(normalized)) {
+        return true;
+      }
+
+      if (FALSE_VALUES.includes(normalized)) {
+        return false;
+      }
+
+      errors.push(`"${path}" must be a boolean, got ${JSON.stringify(value)}`);
+      return value;
+    }
+    case "enum": {
+      const allowed = spec.enum || [];
+
+      if (!allowed.includes(String(value))) {
+        errors.push(
+          `"${path}" must be one of ${allowed
+            .map((option) => JSON.stringify(option))
+            .join(", ")}, got ${JSON.stringify(value)}`
+        );
+        return value;
+      }
+
+      return String(value);
+    }
+    case "array": {
+      let items = value;
+
+      if (typeof value === "string") {
+        items = value.trim().startsWith("[")
+          ? parseJson(value)
+          : value
+              .split(",")
+              .map((item) => item.trim())
+              .filter((item) => item !== "");
+      }
+
+      if (!Array.isArray(items)) {
+        errors.push(`"${path}" must be a list, got ${JSON.stringify(value)}`);
+        return value;
+      }
+
+      const itemSpec = spec.items;
+
+      return itemSpec
+        ? items.map((item, index) =>
+            coerceValue(itemSpec, item, `${path}[${index}]`, errors)
+          )
+        : items;
+    }
+    case "object": {
+      const object = typeof value === "string" ? parseJson(value) : value;
+
+      if (!isPlainObject(object)) {
+        errors.push(
+          `"${path}" must be an object, got ${JSON.stringify(value)}`
+        );
+        return value;
+      }
+
+      return spec.properties
+        ? { ...object, ...coerceArgs(spec.properties, object, errors, path) }
+        : object;
+    }
+    default:
+      // Untyped and free-form types are passed through untouched.
+      return value;
+  }
+}
+
+export function coerceArgs(
+  specs: readonly GameFunctionArg[],
+  values: Record<string, any>,
+  errors: string[],
+  prefix?: string
+): Record<string, any> {
+  const result: Record<string, any> = { ...values };
+
+  specs.forEach((spec) => {
+    const path = prefix ? `${prefix}.${spec.name}` : spec.name;
+    const value = values[spec.name];
+
+    if (value === undefined || value === null) {
+      if (spec.default !== undefined) {
+        result[spec.name] = spec.default;
+      } else if (spec.type && !spec.optional) {
+        // Untyped args stay optional, as they were before types existed.
+        errors.push(`"${path}" is required`);
+      }
+
+      return;
+    }
+
+    result[spec.name] = coerceValue(spec, value, path, errors);
+  });
+
+  return result;
+}
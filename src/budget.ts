@@ -0,0 +1,202 @@
+import {
+  ExecutableGameFunctionResponse,
+  ExecutableGameFunctionStatus,
+} from "./function";
+import { GameFunctionMiddleware, innermost } from "./middleware";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export interface GameAgentBudget {
+  // Per call to run() or steps().
+  maxSteps?: number;
+  maxDurationMs?: number;
+  // Over the agent's lifetime, including worker task steps.
+  maxPlannerCalls?: number;
+  functions?: Record<string, { perHour?: number; perDay?: number }>;
+  // What happens when a function is over its quota: tell the planner, wait
+  // for the quota to free up, or end the run.
+  onQuotaExceeded?: "feedback" | "wait" | "stop";
+}
+
+export interface GameBudgetSnapshot {
+  plannerCalls: number;
+  functionCalls: Record<string, number[]>;
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+
+    signal?.addEventListener("abort", done);
+  });
+}
+
+export class GameBudget {
+  private plannerCalls = 0;
+  private functionCalls: Record<string, number[]> = {};
+  private runStartedAt: number | null = null;
+  private runSteps = 0;
+  private stopReason: string | null = null;
+
+  constructor(private limits: GameAgentBudget) {}
+
+  startRun() {
+    this.runStartedAt = Date.now();
+    this.runSteps = 0;
+    this.stopReason = null;
+  }
+
+  countStep() {
+    this.runSteps += 1;
+  }
+
+  countPlannerCall() {
+    this.plannerCalls += 1;
+  }
+
+  // Why the current run has to end, or null while there is budget left.
+  exhausted() {
+    const { maxSteps, maxPlannerCalls, maxDurationMs } = this.limits;
+
+    if (this.stopReason) {
+      return this.stopReason;
+    }
+
+    if (maxSteps !== undefined && this.runSteps >= maxSteps) {
+      return `step limit of ${maxSteps} reached`;
+    }
+
+    if (maxPlannerCalls !== undefined && this.plannerCalls >= maxPlannerCalls) {
+      return `planner call limit of ${maxPlannerCalls} reached`;
+    }
+
+    if (this.remainingMs() === 0) {
+      return `time budget of ${maxDurationMs}ms used up`;
+    }
+
+    return null;
+  }
+
+  remainingMs() {
+    const { maxDurationMs } = this.limits;
+
+    if (maxDurationMs === undefined || this.runStartedAt === null) {
+      return null;
+    }
+
+    return Math.max(0, this.runStartedAt + maxDurationMs - Date.now());
+  }
+
+  // How long until fnName may be called again; 0 if it may be called now.
+  private quotaWait(
+    fnName: string,
+    quota: { perHour?: number; perDay?: number }
+  ) {
+    const now = Date.now();
+    const calls = (this.functionCalls[fnName] || []).filter(
+      (time) => time > now - DAY_MS
+    );
+
+    this.functionCalls[fnName] = calls;
+
+    const windows: [number | undefined, number][] = [
+      [quota.perHour, HOUR_MS],
+      [quota.perDay, DAY_MS],
+    ];
+
+    return Math.max(
+      0,
+      ...windows.map(([limit, windowMs]) => {
+        const inWindow = calls.filter((time) => time > now - windowMs);
+
+        return limit !== undefined && inWindow.length >= limit
+          ? inWindow[inWindow.length - limit] + windowMs - now
+          : 0;
+      })
+    );
+  }
+
+  // Runs last, after approval, so only calls that are actually executed use
+  // up quota.
+  middleware(): GameFunctionMiddleware {
+    return innermost(async (call, next) => {
+      const quota = this.limits.functions?.[call.fn.name];
+      const onExceeded = this.limits.onQuotaExceeded || "feedback";
+
+      if (!quota) {
+        return next();
+      }
+
+      // A quota of 0 never frees up, so waiting for it would hang.
+      if (quota.perHour === 0 || quota.perDay === 0) {
+        if (onExceeded === "stop") {
+          this.stopReason = `${call.fn.name} is not allowed by its quota`;
+        }
+
+        return new ExecutableGameFunctionResponse(
+          ExecutableGameFunctionStatus.Failed,
+          `${call.fn.name} is not allowed: its quota is 0 calls.`
+        );
+      }
+
+      while (true) {
+        const waitMs = this.quotaWait(call.fn.name, quota);
+
+        if (waitMs === 0) {
+          break;
+        }
+
+        // Waiting never outlasts the time budget; once it is used up the
+        // call fails like in feedback mode.
+        const remainingMs = this.remainingMs();
+
+        if (
+          onExceeded === "wait" &&
+          !call.signal?.aborted &&
+          remainingMs !== 0
+        ) {
+          await sleep(Math.min(waitMs, remainingMs ?? Infinity), call.signal);
+          continue;
+        }
+
+        if (onExceeded === "stop") {
+          this.stopReason = `quota for ${call.fn.name} exceeded`;
+        }
+
+        return new ExecutableGameFunctionResponse(
+          ExecutableGameFunctionStatus.Failed,
+          `Quota exceeded for ${
+            call.fn.name
+          }; it can be called again in ${Math.ceil(waitMs / 60000)} minute(s).`
+        );
+      }
+
+      this.functionCalls[call.fn.name].push(Date.now());
+
+      return next();
+    });
+  }
+
+  save(): GameBudgetSnapshot {
+    return {
+      plannerCalls: this.plannerCalls,
+      functionCalls: Object.fromEntries(
+        Object.entries(this.functionCalls).map(([name, calls]) => [
+          name,
+          [...calls],
+        ])
+      ),
+    };
+  }
+
+  restore(snapshot: Partial<GameBudgetSnapshot>) {
+    this.plannerCalls = snapshot.plannerCalls ?? 0;
+    this.functionCalls = snapshot.functionCalls ?? {};
+  }
+}
@@ -0,0 +1,201 @@
+import axios, {
+  AxiosAdapter,
+  AxiosError,
+  AxiosRequestConfig,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from "axios";
+import { promises as fs } from "fs";
+import path from "path";
+
+export interface GameCassetteInteraction {
+  request: { method: string; url: string; body: any };
+  response: { status: number; headers: Record<string, any>; data: any };
+}
+
+interface GameCassetteFile {
+  version: 1;
+  interactions: GameCassetteInteraction[];
+}
+
+// Credentials never reach the cassette: request headers are not recorded and
+// these response fields are blanked.
+const REDACTED_FIELDS = ["accessToken"];
+
+function parseBody(data: unknown) {
+  if (typeof data !== "string") {
+    return data ?? null;
+  }
+
+  try {
+    return JSON.parse(data);
+  } catch (e) {
+    return data;
+  }
+}
+
+function redact(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(redact);
+  }
+
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        REDACTED_FIELDS.includes(key) ? "<redacted>" : redact(item),
+      ])
+    );
+  }
+
+  return value;
+}
+
+function requestKey(request: GameCassetteInteraction["request"]) {
+  return `${request.method} ${request.url} ${JSON.stringify(request.body)}`;
+}
+
+// Records every HTTP request a game client makes to a JSON file, or serves
+// them back from that file without touching the network. Pass it to a client
+// through the `cassette` option.
+class GameCassette {
+  private interactions: GameCassetteInteraction[] = [];
+  private loading: Promise<void> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+  private writes = 0;
+
+  constructor(
+    private file: string,
+    private mode: "record" | "replay" = "replay"
+  ) {}
+
+  // Wraps the transport a client would otherwise use.
+  adapter(adapter?: AxiosRequestConfig["adapter"]): AxiosAdapter {
+    return (config) =>
+      this.mode === "record"
+        ? this.record(
+            config,
+            axios.getAdapter(adapter || axios.defaults.adapter)
+          )
+        : this.replay(config);
+  }
+
+  private request(config: InternalAxiosRequestConfig) {
+    return {
+      method: (config.method || "get").toUpperCase(),
+      url: axios.getUri(config),
+      body: parseBody(config.data),
+    };
+  }
+
+  private async record(
+    config: InternalAxiosRequestConfig,
+    adapter: AxiosAdapter
+  ) {
+    let response: AxiosResponse;
+    let error: unknown = null;
+
+    try {
+      response = await adapter(config);
+    } catch (e) {
+      if (!axios.isAxiosError(e) || !e.response) {
+        throw e;
+      }
+
+      response = e.response;
+      error = e;
+    }
+
+    this.interactions.push({
+      request: this.request(config),
+      response: {
+        status: response.status,
+        headers: { ...response.headers },
+        data: redact(parseBody(response.data)),
+      },
+    });
+    await this.save();
+
+    if (error) {
+      throw error;
+    }
+
+    return response;
+  }
+
+  private async replay(config: InternalAxiosRequestConfig) {
+    await this.load();
+
+    const request = this.request(config);
+    const key = requestKey(request);
+    const index = this.interactions.findIndex(
+      (interaction) => requestKey(interaction.request) === key
+    );
+
+    if (index === -1) {
+      throw new Error(
+        `No recorded response for ${request.method} ${request.url} in ${this.file}`
+      );
+    }
+
+    // Identical requests are served in the order they were recorded.
+    const [{ response: recorded }] = this.interactions.splice(index, 1);
+    const response: AxiosResponse = {
+      data: recorded.data,
+      status: recorded.status,
+      statusText: String(recorded.status),
+      headers: recorded.headers,
+      config,
+    };
+    const validateStatus =
+      config.validateStatus ||
+      ((status: number) => status >= 200 && status < 300);
+
+    if (!validateStatus(response.status)) {
+      throw new AxiosError(
+        `Request failed with status code ${response.status}`,
+        response.status >= 500
+          ? AxiosError.ERR_BAD_RESPONSE
+          : AxiosError.ERR_BAD_REQUEST,
+        config,
+        null,
+        response
+      );
+    }
+
+    return response;
+  }
+
+  private load() {
+    if (!this.loading) {
+      this.loading = fs.readFile(this.file, "utf8").then((content) => {
+        const cassette: GameCassetteFile = JSON.parse(content);
+        this.interactions = cassette.interactions;
+      });
+    }
+
+    return this.loading;
+  }
+
+  // Writes are chained so concurrent requests can't interleave them. A failed
+  // write doesn't block later ones.
+  save() {
+    this.writing = this.writing
+      .catch(() => undefined)
+      .then(async () => {
+        const tmp = `${this.file}.${process.pid}.${++this.writes}.tmp`;
+        const cassette: GameCassetteFile = {
+          version: 1,
+          interactions: this.interactions,
+        };
+
+        await fs.mkdir(path.dirname(this.file), { recursive: true });
+        await fs.writeFile(tmp, JSON.stringify(cassette, null, 2));
+        await fs.rename(tmp, this.file);
+      });
+
+    return this.writing;
+  }
+}
+
+export default GameCassette;
@@ -1,5 +1,12 @@
+import GameClient from "./api";
 import GAMEClientV2 from "./apiV2";
-import { LLMModel } from "./interface/GameClient";
+import { ExecutableGameFunctionStatus, GameFunctionBase } from "./function";
+import {
+  GameClientOptions,
+  IGameChatClient,
+  LLMModel,
+} from "./interface/GameClient";
+import { StateStore } from "./interface/StateStore";
 
 // Type definitions
 export interface Argument {
@@ -16,6 +23,12 @@ export interface FunctionResult {
   info?: Record<string, any>;
 }
 
+export type FunctionExecutableResult = [
+  FunctionResultStatus,
+  string,
+  Record<string, any>
+];
+
 export class Function {
   fn_name: string;
   fn_description: string;
@@ -23,7 +36,7 @@ export class Function {
   hint?: string;
   private executable: (
     ...args: any[]
-  ) => [FunctionResultStatus, string, Record<string, any>];
+  ) => FunctionExecutableResult | Promise<FunctionExecutableResult>;
 
   constructor(
     fn_name: string,
@@ -31,7 +44,7 @@ export class Function {
     args: Argument[],
     executable: (
       ...args: any[]
-    ) => [FunctionResultStatus, string, Record<string, any>],
+    ) => FunctionExecutableResult | Promise<FunctionExecutableResult>,
     hint?: string
   ) {
     this.fn_name = fn_name;
@@ -50,11 +63,43 @@ export class Function {
     };
   }
 
-  static defaultExecutable(): [
-    FunctionResultStatus,
-    string,
-    Record<string, any>
-  ] {
+  // Lets a GameFunction written for GameAgent be used in a chat's action
+  // space as is. Messages the function logs go to logger, if given.
+  static fromGameFunction(
+    fn: GameFunctionBase,
+    logger?: (msg: string) => void
+  ) {
+    return new Function(
+      fn.name,
+      fn.description,
+      fn.args.map((arg) => ({
+        name: arg.name,
+        type: arg.type,
+        description: arg.description,
+        // Same rule as argument validation: untyped args stay optional.
+        required: !!arg.type && !arg.optional && arg.default === undefined,
+      })),
+      async (args: Record<string, any>) => {
+        const response = await fn.execute(
+          Object.fromEntries(
+            Object.entries(args).map(([name, value]) => [name, { value }])
+          ),
+          (msg: string) => logger?.(`[${fn.name}] ${msg}`)
+        );
+
+        return [
+          response.status === ExecutableGameFunctionStatus.Done
+            ? FunctionResultStatus.DONE
+            : FunctionResultStatus.FAILED,
+          response.feedback,
+          {},
+        ];
+      },
+      fn.hint
+    );
+  }
+
+  static defaultExecutable(): FunctionExecutableResult {
     return [
       FunctionResultStatus.DONE,
       "Default implementation - no action taken",
@@ -62,10 +107,10 @@ export class Function {
     ];
   }
 
-  execute(kwargs: {
+  async execute(kwargs: {
     fn_id: string;
     args: Record<string, any>;
-  }): FunctionResult {
+  }): Promise<FunctionResult> {
     try {
       const processedArgs: Record<string, any> = {};
 
@@ -78,7 +123,7 @@ export class Function {
         }
       }
 
-      const [status, feedback, info] = this.executable(processedArgs);
+      const [status, feedback, info] = await this.executable(processedArgs);
 
       return {
         action_id: kwargs.fn_id,
@@ -101,7 +146,9 @@ export class Function {
 export interface ChatResponse {
   message: string;
   isFinished: boolean;
+  // The last function called this turn; see functionCalls for all of them.
   functionCall: FunctionCallResponse | null;
+  functionCalls: FunctionCallResponse[];
 }
 
 export interface FunctionCallResponse {
@@ -120,76 +167,161 @@ export interface GameChatResponse {
   };
 }
 
+export interface ChatTranscriptEntry {
+  role: "partner" | "agent" | "function";
+  timestamp: number;
+  message?: string;
+  functionCall?: FunctionCallResponse;
+}
+
+export interface ChatTranscript {
+  version: 1;
+  chatId: string;
+  partnerId: string;
+  partnerName: string;
+  createdAt: number;
+  entries: ChatTranscriptEntry[];
+}
+
+function newTranscript(
+  chatId: string,
+  partnerId = "",
+  partnerName = ""
+): ChatTranscript {
+  return {
+    version: 1,
+    chatId,
+    partnerId,
+    partnerName,
+    createdAt: Date.now(),
+    entries: [],
+  };
+}
+
 export enum FunctionResultStatus {
   DONE = "done",
   FAILED = "failed",
 }
 
 // Main Chat class
-class Chat {
-  private chatId: string;
-  private client: GAMEClientV2;
+export class Chat {
+  public readonly chatId: string;
+  private client: IGameChatClient;
   private actionSpace: Record<string, Function> | null;
   private getStateFn: (() => Record<string, any>) | null;
+  private maxCallsPerTurn: number;
+  private transcript: ChatTranscript;
+  private transcriptStore: StateStore<ChatTranscript> | null;
 
   constructor(
     chatId: string,
-    client: GAMEClientV2,
-    actionSpace?: Function[],
-    getStateFn?: () => Record<string, any>
+    client: IGameChatClient,
+    actionSpace?: (Function | GameFunctionBase)[],
+    getStateFn?: () => Record<string, any>,
+    options?: {
+      maxCallsPerTurn?: number;
+      transcript?: ChatTranscript;
+      transcriptStore?: StateStore<ChatTranscript>;
+      logger?: (msg: string) => void;
+    }
   ) {
     this.chatId = chatId;
     this.client = client;
+    this.maxCallsPerTurn = options?.maxCallsPerTurn ?? 5;
+    this.transcript = options?.transcript || newTranscript(chatId);
+    this.transcriptStore = options?.transcriptStore || null;
     this.actionSpace = actionSpace
-      ? Object.fromEntries(actionSpace.map((f) => [f.fn_name, f]))
+      ? Object.fromEntries(
+          actionSpace
+            .map((f) =>
+              f instanceof Function
+                ? f
+                : Function.fromGameFunction(f, options?.logger)
+            )
+            .map((f) => [f.fn_name, f])
+        )
       : null;
     this.getStateFn = getStateFn || null;
   }
 
+  // Executes function calls until the agent replies with a plain message or
+  // the per-turn limit is reached.
   async next(message: string): Promise<ChatResponse> {
-    const convoResponse = await this.updateConversation(message);
+    this.record({ role: "partner", message });
 
-    let responseMessage: string;
-    let functionCallResponse: FunctionCallResponse | null = null;
-
-    if (convoResponse.function_call) {
-      if (!this.actionSpace) {
-        throw new Error("No functions provided");
-      }
+    let convoResponse = await this.updateConversation(message);
+    const functionCalls: FunctionCallResponse[] = [];
 
-      const fnName = convoResponse.function_call.fn_name;
-      const fnToCall = this.actionSpace[fnName];
+    while (convoResponse.function_call) {
+      const call = convoResponse.function_call;
 
-      if (!fnToCall) {
-        throw new Error(
-          `Function ${fnName}, returned by the agent, not found in action space`
-        );
+      if (functionCalls.length >= this.maxCallsPerTurn) {
+        convoResponse = await this.reportResult({
+          action_id: call.id,
+          action_status: { value: FunctionResultStatus.FAILED },
+          feedback_message: `Function call limit of ${this.maxCallsPerTurn} reached for this turn. Reply to the user instead.`,
+        });
+        break;
       }
 
-      const result = fnToCall.execute({
-        fn_id: convoResponse.function_call.id,
-        args: convoResponse.function_call.args,
-      });
+      const functionCall = await this.callFunction(call);
 
-      responseMessage = await this.reportFunctionResult(result);
-      functionCallResponse = {
-        fn_name: fnName,
-        fn_args: convoResponse.function_call.args,
-        result,
-      };
-    } else {
-      responseMessage = convoResponse.message || "";
+      functionCalls.push(functionCall);
+      this.record({ role: "function", functionCall });
+      convoResponse = await this.reportResult(functionCall.result);
     }
 
+    if (functionCalls.length && !convoResponse.message) {
+      throw new Error(
+        "Agent did not return a message for the function report."
+      );
+    }
+
+    this.record({ role: "agent", message: convoResponse.message || "" });
+    await this.transcriptStore?.save(this.chatId, this.transcript);
+
     return {
-      message: responseMessage,
+      message: convoResponse.message || "",
       isFinished: convoResponse.is_finished,
-      functionCall: functionCallResponse,
+      functionCall: functionCalls[functionCalls.length - 1] || null,
+      functionCalls,
     };
   }
 
-  end(message?: string): void {
-    this.client.endChat(this.chatId, { message });
+  private async callFunction(
+    call: NonNullable<GameChatResponse["function_call"]>
+  ): Promise<FunctionCallResponse> {
+    if (!this.actionSpace) {
+      throw new Error("No functions provided");
+    }
+
+    const fnToCall = this.actionSpace[call.fn_name];
+
+    if (!fnToCall) {
+      throw new Error(
+        `Function ${call.fn_name}, returned by the agent, not found in action space`
+      );
+    }
+
+    const result = await fnToCall.execute({
+      fn_id: call.id,
+      args: call.args,
+    });
+
+    return { fn_name: call.fn_name, fn_args: call.args, result };
+  }
+
+  private record(entry: Omit<ChatTranscriptEntry, "timestamp">) {
+    this.transcript.entries.push({ ...entry, timestamp: Date.now() });
+  }
+
+  // The conversation so far, for export as JSON.
+  toJSON(): ChatTranscript {
+    return JSON.parse(JSON.stringify(this.transcript));
+  }
+
+  async end(message?: string): Promise<void> {
+    await this.client.endChat(this.chatId, { message });
   }
 
   async updateConversation(message: string): Promise<GameChatResponse> {
@@ -205,13 +337,7 @@ class Chat {
   }
 
   async reportFunctionResult(result: FunctionResult): Promise<string> {
-    const data = {
-      fn_id: result.action_id,
-      result: result.feedback_message
-        ? `${result.action_status.value}: ${result.feedback_message}`
-        : result.action_status.value,
-    };
-    const response = await this.client.reportFunction(this.chatId, data);
+    const response = await this.reportResult(result);
 
     if (!response.message) {
       throw new Error(
@@ -220,30 +346,59 @@ class Chat {
     }
     return response.message;
   }
+
+  private reportResult(result: FunctionResult): Promise<GameChatResponse> {
+    const data = {
+      fn_id: result.action_id,
+      result: result.feedback_message
+        ? `${result.action_status.value}: ${result.feedback_message}`
+        : result.action_status.value,
+    };
+
+    return this.client.reportFunction(this.chatId, data);
+  }
 }
 
 // ChatAgent class
 export class ChatAgent {
   private _api_key: string;
   public prompt: string;
-  private client: GAMEClientV2;
+  private client: IGameChatClient;
+  private transcriptStore: StateStore<ChatTranscript> | null;
+  private logger?: (msg: string) => void;
 
-  constructor(api_key: string, prompt: string) {
+  constructor(
+    api_key: string,
+    prompt: string,
+    options?: {
+      llmModel?: LLMModel | string;
+      chatClient?: IGameChatClient;
+      clientOptions?: GameClientOptions;
+      transcriptStore?: StateStore<ChatTranscript>;
+      // Receives messages logged by GameFunctions in a chat's action space.
+      logger?: (msg: string) => void;
+    }
+  ) {
     this._api_key = api_key;
     this.prompt = prompt;
+    this.transcriptStore = options?.transcriptStore || null;
+    this.logger = options?.logger;
 
-    if (api_key.startsWith("apt-")) {
-      this.client = new GAMEClientV2(api_key, LLMModel.Llama_3_1_405B_Instruct);
-    } else {
-      throw new Error("Please use V2 API key to use ChatAgent");
-    }
+    const llmModel = options?.llmModel || LLMModel.Llama_3_1_405B_Instruct;
+
+    this.client =
+      options?.chatClient ||
+      (api_key.startsWith("apt-")
+        ? new GAMEClientV2(api_key, llmModel, options?.clientOptions)
+        : new GameClient(api_key, llmModel, options?.clientOptions));
   }
 
   async createChat(data: {
     partnerId: string;
     partnerName: string;
-    actionSpace?: Function[];
+    actionSpace?: (Function | GameFunctionBase)[];
     getStateFn?: () => Record<string, any>;
+    maxCallsPerTurn?: number;
   }): Promise<Chat> {
     const chat_id = await this.client.createChat({
       prompt: this.prompt,
@@ -251,6 +406,39 @@ export class ChatAgent {
       partner_name: data.partnerName,
     });
 
-    return new Chat(chat_id, this.client, data.actionSpace, data.getStateFn);
+    const transcript = newTranscript(chat_id, data.partnerId, data.partnerName);
+
+    await this.transcriptStore?.save(chat_id, transcript);
+
+    return new Chat(chat_id, this.client, data.actionSpace, data.getStateFn, {
+      maxCallsPerTurn: data.maxCallsPerTurn,
+      transcript,
+      transcriptStore: this.transcriptStore || undefined,
+      logger: this.logger,
+    });
+  }
+
+  // Reattaches to a conversation created earlier, e.g. before a restart. The
+  // transcript is picked up from the transcript store when there is one.
+  async resumeChat(
+    chatId: string,
+    data: {
+      partnerId?: string;
+      partnerName?: string;
+      actionSpace?: (Function | GameFunctionBase)[];
+      getStateFn?: () => Record<string, any>;
+      maxCallsPerTurn?: number;
+    } = {}
+  ): Promise<Chat> {
+    const saved = await this.transcriptStore?.load(chatId);
+    const transcript =
+      saved || newTranscript(chatId, data.partnerId, data.partnerName);
+
+    return new Chat(chatId, this.client, data.actionSpace, data.getStateFn, {
+      maxCallsPerTurn: data.maxCallsPerTurn,
+      transcript,
+      transcriptStore: this.transcriptStore || undefined,
+      logger: this.logger,
+    });
   }
 }
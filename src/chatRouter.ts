@@ -0,0 +1,180 @@
+import { Chat, ChatAgent, ChatResponse } from "./chatAgent";
+
+type ChatOptions = Omit<Parameters<ChatAgent["createChat"]>[0], "partnerId">;
+
+export interface ChatRouterOptions {
+  // Options for the chat created for a partner; partnerName defaults to the
+  // partner id.
+  chatOptions?: (
+    partnerId: string
+  ) => Partial<ChatOptions> | Promise<Partial<ChatOptions>>;
+  idleTimeoutMs?: number;
+  maxOpenChats?: number;
+}
+
+interface RoutedChat {
+  chat: Promise<Chat>;
+  // Tail of this partner's message queue.
+  queue: Promise<unknown>;
+  pending: number;
+  lastActiveAt: number;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+// Routes messages from many partners to one chat per partner. Chats are
+// created on a partner's first message, handle that partner's messages one at
+// a time, and are ended once idle or when the agent finishes them.
+class ChatRouter {
+  private chats = new Map<string, RoutedChat>();
+  private idleTimeoutMs: number;
+  private maxOpenChats: number;
+
+  constructor(
+    private agent: ChatAgent,
+    private options: ChatRouterOptions = {}
+  ) {
+    this.idleTimeoutMs = options.idleTimeoutMs ?? 30 * 60 * 1000;
+    this.maxOpenChats = options.maxOpenChats ?? 100;
+  }
+
+  get openChats() {
+    return [...this.chats.keys()];
+  }
+
+  async send(partnerId: string, message: string): Promise<ChatResponse> {
+    const routed = this.chats.get(partnerId) || this.open(partnerId);
+
+    routed.pending += 1;
+    this.clearTimer(routed);
+
+    const turn = routed.queue.then(async () =>
+      (await routed.chat).next(message)
+    );
+    routed.queue = turn.catch(() => undefined);
+
+    try {
+      const response = await turn;
+
+      if (response.isFinished && this.chats.get(partnerId) === routed) {
+        this.close(partnerId, routed);
+      }
+
+      return response;
+    } finally {
+      routed.pending -= 1;
+      routed.lastActiveAt = Date.now();
+      this.scheduleExpiry(partnerId, routed);
+    }
+  }
+
+  async end(partnerId: string, message?: string) {
+    const routed = this.chats.get(partnerId);
+
+    if (routed) {
+      await this.close(partnerId, routed, message);
+    }
+  }
+
+  async endAll(message?: string) {
+    await Promise.all(
+      [...this.chats.entries()].map(([partnerId, routed]) =>
+        this.close(partnerId, routed, message)
+      )
+    );
+  }
+
+  private open(partnerId: string) {
+    if (this.chats.size >= this.maxOpenChats) {
+      this.evict();
+    }
+
+    const routed: RoutedChat = {
+      chat: this.createChat(partnerId),
+      queue: Promise.resolve(),
+      pending: 0,
+      lastActiveAt: Date.now(),
+      timer: null,
+    };
+
+    // Forget a chat that failed to start so the next message retries.
+    routed.chat.catch(() => {
+      if (this.chats.get(partnerId) === routed) {
+        this.chats.delete(partnerId);
+      }
+    });
+
+    this.chats.set(partnerId, routed);
+    return routed;
+  }
+
+  private async createChat(partnerId: string) {
+    const options = (await this.options.chatOptions?.(partnerId)) || {};
+
+    return this.agent.createChat({
+      partnerName: partnerId,
+      ...options,
+      partnerId,
+    });
+  }
+
+  // Makes room by ending the least recently active chat that isn't handling a
+  // message.
+  private evict() {
+    let oldest: [string, RoutedChat] | null = null;
+
+    for (const entry of this.chats) {
+      if (
+        !entry[1].pending &&
+        (!oldest || entry[1].lastActiveAt < oldest[1].lastActiveAt)
+      ) {
+        oldest = entry;
+      }
+    }
+
+    if (!oldest) {
+      throw new Error(
+        `Too many open chats (max ${this.maxOpenChats}), all are busy`
+      );
+    }
+
+    this.close(...oldest);
+  }
+
+  private async close(partnerId: string, routed: RoutedChat, message?: string) {
+    this.chats.delete(partnerId);
+    this.clearTimer(routed);
+
+    // Let queued messages finish before ending the chat. Failures are
+    // swallowed: the chat is gone from the router either way.
+    try {
+      await routed.queue;
+      const chat = await routed.chat;
+      await chat.end(message);
+    } catch (e) {
+      // Ignored.
+    }
+  }
+
+  private scheduleExpiry(partnerId: string, routed: RoutedChat) {
+    if (routed.pending || this.chats.get(partnerId) !== routed) {
+      return;
+    }
+
+    this.clearTimer(routed);
+    routed.timer = setTimeout(
+      () => this.close(partnerId, routed),
+      this.idleTimeoutMs
+    );
+    // Idle chats shouldn't keep the process alive.
+    routed.timer.unref?.();
+  }
+
+  private clearTimer(routed: RoutedChat) {
+    if (routed.timer) {
+      clearTimeout(routed.timer);
+      routed.timer = null;
+    }
+  }
+}
+
+export default ChatRouter;
@@ -0,0 +1,51 @@
+import {
+  ExecutableGameFunctionResponse,
+  ExecutableGameFunctionStatus,
+} from "./function";
+import { GameFunctionMiddleware } from "./middleware";
+
+export interface GameDryRunEntry {
+  workerId: string;
+  submissionId?: string;
+  fnName: string;
+  args: Record<string, any>;
+  // True when the function was skipped rather than run.
+  simulated: boolean;
+  status: ExecutableGameFunctionStatus;
+  feedback: string;
+  timestamp: number;
+}
+
+// Skips side-effecting functions, answering with a simulated success, and
+// keeps a log of every call so the run can be reviewed afterwards.
+export class DryRunRecorder {
+  public entries: GameDryRunEntry[] = [];
+
+  constructor(private sideEffects: string[] = []) {}
+
+  middleware(): GameFunctionMiddleware {
+    return async (call, next) => {
+      const simulated =
+        !!call.fn.sideEffects || this.sideEffects.includes(call.fn.name);
+      const response = simulated
+        ? new ExecutableGameFunctionResponse(
+            ExecutableGameFunctionStatus.Done,
+            `${call.fn.name} completed successfully.`
+          )
+        : await next();
+
+      this.entries.push({
+        workerId: call.workerId,
+        submissionId: call.submissionId,
+        fnName: call.fn.name,
+        args: call.args,
+        simulated,
+        status: response.status,
+        feedback: response.feedback,
+        timestamp: Date.now(),
+      });
+
+      return response;
+    };
+  }
+}
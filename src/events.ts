@@ -0,0 +1,118 @@
+import { ExecutableGameFunctionStatus } from "./function";
+import { ActionType, GameAction } from "./interface/GameClient";
+
+interface StepEvent {
+  workerId: string;
+  submissionId?: string;
+}
+
+export interface GameEvents {
+  beforeStep: StepEvent & {
+    environment: Record<string, any>;
+    agentState?: Record<string, any>;
+  };
+  actionReceived: StepEvent & { action: GameAction };
+  functionStart: StepEvent & {
+    fnName: string;
+    fnId: string;
+    args: Record<string, any>;
+  };
+  functionEnd: StepEvent & {
+    fnName: string;
+    fnId: string;
+    args: Record<string, any>;
+    status: ExecutableGameFunctionStatus;
+    feedback: string;
+    durationMs: number;
+  };
+  workerChanged: { from: string; to: string };
+  taskDispatched: { workerId: string; submissionId: string; task: string };
+  taskEnd: {
+    workerId: string;
+    submissionId: string;
+    task: string;
+    status: "running" | "done" | "stopped" | "failed";
+    result?: string;
+  };
+  approvalRequested: StepEvent & {
+    fnName: string;
+    fnId: string;
+    args: Record<string, any>;
+  };
+  approvalResolved: StepEvent & {
+    fnName: string;
+    fnId: string;
+    approved: boolean;
+    reason?: string;
+  };
+  budgetExhausted: { reason: string };
+  wait: StepEvent;
+  error: StepEvent & { error: unknown };
+}
+
+export interface GameStepRecord {
+  workerId: string;
+  submissionId?: string;
+  actionType: ActionType;
+  thought: string;
+  fnName: string | null;
+  args: Record<string, any> | null;
+  response: {
+    status: ExecutableGameFunctionStatus;
+    feedback: string;
+  } | null;
+  startedAt: number;
+  durationMs: number;
+}
+
+export type GameEventListener<T> = (payload: T) => void;
+
+// Unlike node's EventEmitter, emitting "error" without listeners is a no-op;
+// the agent rethrows the underlying error itself.
+export class GameEventEmitter<Events extends Record<string, any>> {
+  private listeners: {
+    [K in keyof Events]?: Set<GameEventListener<Events[K]>>;
+  } = {};
+
+  on<K extends keyof Events>(event: K, listener: GameEventListener<Events[K]>) {
+    if (!this.listeners[event]) {
+      this.listeners[event] = new Set();
+    }
+
+    this.listeners[event]!.add(listener);
+    return this;
+  }
+
+  once<K extends keyof Events>(
+    event: K,
+    listener: GameEventListener<Events[K]>
+  ) {
+    const wrapped = (payload: Events[K]) => {
+      this.off(event, wrapped);
+      listener(payload);
+    };
+
+    return this.on(event, wrapped);
+  }
+
+  off<K extends keyof Events>(
+    event: K,
+    listener: GameEventListener<Events[K]>
+  ) {
+    this.listeners[event]?.delete(listener);
+    return this;
+  }
+
+  protected emit<K extends keyof Events>(event: K, payload: Events[K]) {
+    this.listeners[event]?.forEach((listener) => listener(payload));
+  }
+}
+
+export function unwrapArgs(args: Record<string, any>) {
+  return Object.fromEntries(
+    Object.entries(args || {}).map(([key, arg]) => [
+      key,
+      arg && typeof arg === "object" && "value" in arg ? arg.value : arg,
+    ])
+  );
+}
@@ -1,3 +1,12 @@
+import { coerceArgs } from "./args";
+import {
+  JsonSchema,
+  ZodLikeSchema,
+  argsToJsonSchema,
+  jsonSchemaToArgs,
+  zodToJsonSchema,
+} from "./schema";
+
 export enum ExecutableGameFunctionStatus {
   Done = "done",
   Failed = "failed",
@@ -22,22 +31,55 @@ export class ExecutableGameFunctionResponse {
   }
 }
 
+export class GameFunctionTimeoutError extends Error {
+  constructor(public fnName: string, public timeout: number) {
+    super(`Function ${fnName} timed out after ${timeout}ms`);
+    this.name = "GameFunctionTimeoutError";
+  }
+}
+
+export interface GameFunctionFailure {
+  attempt: number;
+  response?: ExecutableGameFunctionResponse;
+  error?: unknown;
+}
+
 interface IGameFunction<T extends GameFunctionArg[]> {
   name: string;
   description: string;
   args: T;
   executable: (
     args: Partial<ExecutableArgs<T>>,
-    logger: (msg: string) => void
+    logger: (msg: string) => void,
+    signal: AbortSignal
   ) => Promise<ExecutableGameFunctionResponse>;
   hint?: string;
+  timeout?: number;
+  retries?: number;
+  retryBackoff?: number;
+  isRetryable?: (failure: GameFunctionFailure) => boolean;
+  requiresApproval?: boolean;
+  sideEffects?: boolean;
 }
 
+export type GameFunctionArgType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "enum"
+  | "array"
+  | "object";
+
 export interface GameFunctionArg {
   name: string;
   description: string;
-  type?: string;
+  type?: GameFunctionArgType | (string & {});
   optional?: boolean;
+  default?: any;
+  enum?: readonly string[];
+  items?: Omit<GameFunctionArg, "name" | "description">;
+  properties?: readonly GameFunctionArg[];
 }
 
 export type GameFunctionBase = {
@@ -45,19 +87,37 @@ export type GameFunctionBase = {
   description: string;
   args: GameFunctionArg[];
   executable: (
-    args: Record<string, string>,
-    logger: (msg: string) => void
+    args: Record<string, any>,
+    logger: (msg: string) => void,
+    signal: AbortSignal
   ) => Promise<ExecutableGameFunctionResponse>;
   hint?: string;
+  requiresApproval?: boolean;
+  sideEffects?: boolean;
   execute: (
-    args: Record<string, { value: string }>,
-    logger: (msg: string) => void
+    args: Record<string, { value: any }>,
+    logger: (msg: string) => void,
+    options?: { signal?: AbortSignal }
   ) => Promise<ExecutableGameFunctionResponse>;
   toJSON(): Object;
 };
 
+type ExecutableArgValue<A extends GameFunctionArg> = A extends {
+  type: "number" | "integer";
+}
+  ? number
+  : A extends { type: "boolean" }
+  ? boolean
+  : A extends { type: "enum"; enum: readonly (infer E)[] }
+  ? E
+  : A extends { type: "array" }
+  ? any[]
+  : A extends { type: "object" }
+  ? Record<string, any>
+  : string;
+
 type ExecutableArgs<T extends GameFunctionArg[]> = {
-  [K in T[number]["name"]]: string;
+  [A in T[number] as A["name"]]: ExecutableArgValue<A>;
 };
 
 class GameFunction<T extends GameFunctionArg[]> implements IGameFunction<T> {
@@ -66,9 +126,16 @@ class GameFunction<T extends GameFunctionArg[]> implements IGameFunction<T> {
   public args: T;
   public executable: (
     args: Partial<ExecutableArgs<T>>,
-    logger: (msg: string) => void
+    logger: (msg: string) => void,
+    signal: AbortSignal
   ) => Promise<ExecutableGameFunctionResponse>;
   public hint?: string;
+  public timeout?: number;
+  public retries: number;
+  public retryBackoff: number;
+  public isRetryable: (failure: GameFunctionFailure) => boolean;
+  public requiresApproval: boolean;
+  public sideEffects: boolean;
 
   constructor(options: IGameFunction<T>) {
     this.name = options.name;
@@ -76,6 +143,33 @@ class GameFunction<T extends GameFunctionArg[]> implements IGameFunction<T> {
     this.args = options.args;
     this.executable = options.executable;
     this.hint = options.hint;
+    this.timeout = options.timeout;
+    this.retries = options.retries || 0;
+    this.retryBackoff = options.retryBackoff ?? 1000;
+    this.isRetryable = options.isRetryable || ((failure) => !!failure.error);
+    this.requiresApproval = options.requiresApproval || false;
+    this.sideEffects = options.sideEffects || false;
+  }
+
+  static fromJsonSchema(
+    schema: JsonSchema,
+    options: Omit<IGameFunction<GameFunctionArg[]>, "args">
+  ) {
+    return new GameFunction({ ...options, args: jsonSchemaToArgs(schema) });
+  }
+
+  static fromZod(
+    schema: ZodLikeSchema,
+    options: Omit<IGameFunction<GameFunctionArg[]>, "args">
+  ) {
+    return GameFunction.fromJsonSchema(zodToJsonSchema(schema), options);
+  }
+
+  toJsonSchema(): JsonSchema {
+    return {
+      ...argsToJsonSchema(this.args),
+      description: this.description,
+    };
   }
 
   toJSON() {
@@ -89,19 +183,133 @@ class GameFunction<T extends GameFunctionArg[]> implements IGameFunction<T> {
 
   async execute(
     args: {
-      [key in GameFunctionArg["name"]]: { value: string };
+      [key in GameFunctionArg["name"]]: { value: any };
     },
-    logger: (msg: string) => void
+    logger: (msg: string) => void,
+    options?: { signal?: AbortSignal }
   ) {
-    const argValues: ExecutableArgs<T> = Object.keys(args).reduce(
-      (acc, key) => {
-        acc[key as keyof ExecutableArgs<T>] = args[key]?.value;
-        return acc;
-      },
-      {} as ExecutableArgs<T>
-    );
-
-    return await this.executable(argValues, logger);
+    const rawValues = Object.keys(args).reduce((acc, key) => {
+      acc[key] = args[key]?.value;
+      return acc;
+    }, {} as Record<string, any>);
+
+    const errors: string[] = [];
+    const argValues = coerceArgs(this.args, rawValues, errors);
+
+    if (errors.length) {
+      return new ExecutableGameFunctionResponse(
+        ExecutableGameFunctionStatus.Failed,
+        `Invalid arguments for ${this.name}: ${errors.join("; ")}`
+      );
+    }
+
+    const signal = options?.signal;
+    let failure: GameFunctionFailure;
+
+    for (let attempt = 1; ; attempt++) {
+      failure = await this.attempt(
+        argValues as Partial<ExecutableArgs<T>>,
+        logger,
+        attempt,
+        signal
+      );
+
+      if (failure.response?.status === ExecutableGameFunctionStatus.Done) {
+        return failure.response;
+      }
+
+      if (
+        signal?.aborted ||
+        attempt > this.retries ||
+        !this.isRetryable(failure)
+      ) {
+        break;
+      }
+
+      const delay = this.retryBackoff * 2 ** (attempt - 1);
+      logger(
+        `Retrying ${this.name} in ${delay}ms (attempt ${attempt + 1} of ${
+          this.retries + 1
+        }).`
+      );
+
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(done, delay);
+        function done() {
+          clearTimeout(timer);
+          signal?.removeEventListener("abort", done);
+          resolve();
+        }
+        signal?.addEventListener("abort", done);
+      });
+    }
+
+    if (failure.response) {
+      return failure.response;
+    }
+
+    if (failure.error instanceof GameFunctionTimeoutError) {
+      return new ExecutableGameFunctionResponse(
+        ExecutableGameFunctionStatus.Failed,
+        `${failure.error.message}. The call may not have completed.`
+      );
+    }
+
+    if (signal?.aborted) {
+      return new ExecutableGameFunctionResponse(
+        ExecutableGameFunctionStatus.Failed,
+        `Function ${this.name} was cancelled.`
+      );
+    }
+
+    throw failure.error;
+  }
+
+  private async attempt(
+    args: Partial<ExecutableArgs<T>>,
+    logger: (msg: string) => void,
+    attempt: number,
+    signal?: AbortSignal
+  ): Promise<GameFunctionFailure> {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    const aborted = new Promise<never>((_, reject) => {
+      controller.signal.addEventListener("abort", () =>
+        reject(controller.signal.reason)
+      );
+    });
+    aborted.catch(() => {});
+
+    const timer = this.timeout
+      ? setTimeout(
+          () =>
+            controller.abort(
+              new GameFunctionTimeoutError(this.name, this.timeout!)
+            ),
+          this.timeout
+        )
+      : null;
+
+    signal?.addEventListener("abort", onAbort);
+    if (signal?.aborted) {
+      onAbort();
+    }
+
+    try {
+      const response = await Promise.race([
+        this.executable(args, logger, controller.signal),
+        aborted,
+      ]);
+
+      return { attempt, response };
+    } catch (error) {
+      return { attempt, error };
+    } finally {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      signal?.removeEventListener("abort", onAbort);
+    }
   }
 }
 
@@ -0,0 +1,192 @@
+import axios, { AxiosInstance, AxiosRequestConfig } from "axios";
+import { GameClientOptions } from "./interface/GameClient";
+
+export class GameRateLimitError extends Error {
+  constructor(message: string, public retryAfterMs: number | null) {
+    super(message);
+    this.name = "GameRateLimitError";
+  }
+}
+
+export class GameAuthError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "GameAuthError";
+  }
+}
+
+export class GameServerError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "GameServerError";
+  }
+}
+
+// Per-request config so an injected axios instance gets the same base URL,
+// headers and transport settings as the one we would create ourselves.
+export function requestConfig(
+  options: GameClientOptions,
+  defaults: { baseURL: string; headers?: Record<string, string> }
+): AxiosRequestConfig {
+  const config: AxiosRequestConfig = {
+    baseURL: defaults.baseURL,
+    headers: { ...defaults.headers, ...options.headers },
+  };
+
+  if (options.timeout !== undefined) {
+    config.timeout = options.timeout;
+  }
+
+  if (options.proxy !== undefined) {
+    config.proxy = options.proxy;
+  }
+
+  if (options.cassette) {
+    config.adapter = options.cassette.adapter(options.adapter);
+  } else if (options.adapter !== undefined) {
+    config.adapter = options.adapter;
+  }
+
+  return config;
+}
+
+export function createHttpClient(options: GameClientOptions): AxiosInstance {
+  return options.httpClient || axios.create();
+}
+
+function parseRetryAfter(value: unknown) {
+  if (typeof value !== "string" && typeof value !== "number") {
+    return null;
+  }
+
+  const seconds = Number(value);
+
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// Maps HTTP failures onto the SDK's error types; anything else is returned
+// unchanged.
+function toGameError(error: unknown) {
+  if (!axios.isAxiosError(error) || !error.response) {
+    return error;
+  }
+
+  const { status, headers } = error.response;
+  const url = error.config?.url || "request";
+
+  if (status === 429) {
+    return new GameRateLimitError(
+      `Rate limited on ${url}`,
+      parseRetryAfter(headers?.["retry-after"])
+    );
+  }
+
+  if (status === 401 || status === 403) {
+    return new GameAuthError(`Not authorised for ${url} (${status})`, status);
+  }
+
+  if (status >= 500) {
+    return new GameServerError(`Server error on ${url} (${status})`, status);
+  }
+
+  return error;
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Sends requests for one client: waits for the token bucket, retries 429 and
+// 5xx responses with backoff, and holds back every request while the server
+// has asked us to slow down.
+export class RequestScheduler {
+  private tokens: number;
+  private refilledAt = Date.now();
+  private blockedUntil = 0;
+
+  constructor(private options: GameClientOptions) {
+    this.tokens = this.capacity;
+  }
+
+  private get capacity() {
+    const { rateLimit } = this.options;
+    return rateLimit ? rateLimit.burst ?? rateLimit.requestsPerSecond : 0;
+  }
+
+  private async acquire() {
+    while (true) {
+      const now = Date.now();
+
+      if (now < this.blockedUntil) {
+        await sleep(this.blockedUntil - now);
+        continue;
+      }
+
+      const { rateLimit } = this.options;
+
+      if (!rateLimit) {
+        return;
+      }
+
+      this.tokens = Math.min(
+        this.capacity,
+        this.tokens +
+          ((now - this.refilledAt) / 1000) * rateLimit.requestsPerSecond
+      );
+      this.refilledAt = now;
+
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+
+      await sleep(((1 - this.tokens) / rateLimit.requestsPerSecond) * 1000);
+    }
+  }
+
+  private backoff(attempt: number) {
+    const { minDelayMs = 1000, maxDelayMs = 30000 } = this.options.retry || {};
+    const delay = Math.min(maxDelayMs, minDelayMs * 2 ** attempt);
+
+    // Full jitter keeps clients that failed together from retrying together.
+    return Math.random() * delay;
+  }
+
+  async send<T>(request: () => Promise<T>): Promise<T> {
+    const retries =
+      this.options.retry === false ? 0 : this.options.retry?.retries ?? 3;
+
+    for (let attempt = 0; ; attempt++) {
+      await this.acquire();
+
+      try {
+        return await request();
+      } catch (e) {
+        const error = toGameError(e);
+        const retryable =
+          error instanceof GameRateLimitError ||
+          error instanceof GameServerError;
+
+        if (!retryable || attempt >= retries) {
+          throw error;
+        }
+
+        const delay =
+          error instanceof GameRateLimitError && error.retryAfterMs !== null
+            ? error.retryAfterMs
+            : this.backoff(attempt);
+
+        if (error instanceof GameRateLimitError) {
+          this.blockedUntil = Math.max(this.blockedUntil, Date.now() + delay);
+        }
+
+        await sleep(delay);
+      }
+    }
+  }
+}
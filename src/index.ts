@@ -1,16 +1,137 @@
-import GameAgent from "./agent";
-import GameWorker from "./worker";
+import GameAgent, {
+  GameAgentRunSummary,
+  GameAgentSnapshot,
+  GameAgentWorkerTask,
+} from "./agent";
+import GameWorker, { GameWorkerSnapshot, GameWorkerTaskResult } from "./worker";
 import GameFunction, {
   ExecutableGameFunctionResponse,
   ExecutableGameFunctionStatus,
+  GameFunctionFailure,
+  GameFunctionTimeoutError,
 } from "./function";
-import { LLMModel } from "./interface/GameClient";
+import {
+  GameClientOptions,
+  GameRateLimitOptions,
+  GameRetryOptions,
+  IGameChatClient,
+  IGameClient,
+  LLMModel,
+} from "./interface/GameClient";
+import { GameAuthError, GameRateLimitError, GameServerError } from "./http";
+import { GameEventListener, GameEvents, GameStepRecord } from "./events";
+import { JsonSchema, ZodLikeSchema } from "./schema";
+import { GameFunctionCall, GameFunctionMiddleware } from "./middleware";
+import { GameDryRunEntry } from "./dryRun";
+import { GameAgentBudget, GameBudgetSnapshot } from "./budget";
+import {
+  GameTelemetryOptions,
+  TelemetryMeter,
+  TelemetrySpan,
+  TelemetryTracer,
+} from "./telemetry";
+import {
+  ApprovalChannel,
+  approvalMiddleware,
+  CliApprovalChannel,
+  GameApprovalDecision,
+  GameApprovalRequest,
+  WebhookApprovalChannel,
+} from "./approval";
+import { StateStore } from "./interface/StateStore";
+import {
+  FileStateStore,
+  MemoryStateStore,
+  PostgresQueryable,
+  PostgresStateStore,
+} from "./stateStore";
+import OpenAIGameClient, {
+  OpenAIGameClientOptions,
+  OpenAIGameClientState,
+} from "./apiOpenAI";
+import {
+  ChatAgent,
+  ChatResponse,
+  ChatTranscript,
+  ChatTranscriptEntry,
+  Function,
+  FunctionCallResponse,
+  FunctionResult,
+  FunctionResultStatus,
+} from "./chatAgent";
+import ChatRouter, { ChatRouterOptions } from "./chatRouter";
+import GameCassette, { GameCassetteInteraction } from "./cassette";
+import ScriptedGameClient, {
+  ScriptedGameClientRequest,
+  ScriptedGameClientTask,
+} from "./apiScripted";
 
 export {
+  approvalMiddleware,
+  ChatAgent,
+  ChatRouter,
+  Function,
+  FunctionResultStatus,
   GameAgent,
+  GameCassette,
   GameFunction,
   GameWorker,
   ExecutableGameFunctionResponse,
   ExecutableGameFunctionStatus,
+  GameFunctionTimeoutError,
+  GameAuthError,
+  GameRateLimitError,
+  GameServerError,
   LLMModel,
+  OpenAIGameClient,
+  ScriptedGameClient,
+  CliApprovalChannel,
+  WebhookApprovalChannel,
+  FileStateStore,
+  MemoryStateStore,
+  PostgresStateStore,
+};
+
+export type {
+  ApprovalChannel,
+  ChatResponse,
+  ChatRouterOptions,
+  ChatTranscript,
+  ChatTranscriptEntry,
+  FunctionCallResponse,
+  FunctionResult,
+  GameAgentBudget,
+  GameAgentRunSummary,
+  GameAgentSnapshot,
+  GameAgentWorkerTask,
+  GameApprovalDecision,
+  GameApprovalRequest,
+  GameBudgetSnapshot,
+  GameCassetteInteraction,
+  GameDryRunEntry,
+  GameEventListener,
+  GameEvents,
+  GameClientOptions,
+  GameFunctionCall,
+  GameFunctionFailure,
+  GameFunctionMiddleware,
+  GameRateLimitOptions,
+  GameRetryOptions,
+  GameStepRecord,
+  GameTelemetryOptions,
+  GameWorkerSnapshot,
+  GameWorkerTaskResult,
+  IGameChatClient,
+  IGameClient,
+  JsonSchema,
+  OpenAIGameClientOptions,
+  OpenAIGameClientState,
+  PostgresQueryable,
+  ScriptedGameClientRequest,
+  ScriptedGameClientTask,
+  StateStore,
+  TelemetryMeter,
+  TelemetrySpan,
+  TelemetryTracer,
+  ZodLikeSchema,
 };
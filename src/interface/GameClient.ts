@@ -1,4 +1,11 @@
-import { Axios } from "axios";
+import {
+  Axios,
+  AxiosInstance,
+  AxiosProxyConfig,
+  AxiosRequestConfig,
+} from "axios";
+import GameCassette from "../cassette";
+import { GameChatResponse } from "../chatAgent";
 import GameWorker from "../worker";
 import { ExecutableGameFunctionResponseJSON } from "../function";
 
@@ -46,6 +53,30 @@ export enum LLMModel {
   Qwen_2_5_72B_Instruct = "Qwen-2.5-72B-Instruct",
 }
 
+export interface GameRetryOptions {
+  retries?: number;
+  minDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+export interface GameRateLimitOptions {
+  requestsPerSecond: number;
+  burst?: number;
+}
+
+export interface GameClientOptions {
+  baseUrl?: string;
+  authUrl?: string;
+  headers?: Record<string, string>;
+  proxy?: AxiosProxyConfig | false;
+  timeout?: number;
+  httpClient?: AxiosInstance;
+  adapter?: AxiosRequestConfig["adapter"];
+  retry?: GameRetryOptions | false;
+  rateLimit?: GameRateLimitOptions;
+  cassette?: GameCassette;
+}
+
 export interface IGameClient {
   client: Axios | null;
   createMap(workers: GameWorker[]): Promise<Map>;
@@ -70,4 +101,25 @@ export interface IGameClient {
     gameActionResult: ExecutableGameFunctionResponseJSON | null,
     environment: Record<string, any>
   ): Promise<GameAction>;
+  // Clients that keep planner state locally include it in agent snapshots.
+  save?(): Record<string, any>;
+  restore?(state: Record<string, any>): void;
+}
+
+// Conversation endpoints used by ChatAgent. Both hosted clients implement it;
+// implement it yourself to run chats against another backend or a stub.
+export interface IGameChatClient {
+  createChat(data: Record<string, any>): Promise<string>;
+  updateChat(
+    conversationId: string,
+    data: Record<string, any>
+  ): Promise<GameChatResponse>;
+  reportFunction(
+    conversationId: string,
+    data: Record<string, any>
+  ): Promise<GameChatResponse>;
+  endChat(
+    conversationId: string,
+    data: Record<string, any>
+  ): Promise<GameChatResponse>;
 }
@@ -0,0 +1,7 @@
+import { GameAgentSnapshot } from "../agent";
+
+export interface StateStore<T = GameAgentSnapshot> {
+  load(key: string): Promise<T | null>;
+  save(key: string, snapshot: T): Promise<void>;
+  delete(key: string): Promise<void>;
+}
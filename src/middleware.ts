@@ -0,0 +1,65 @@
+import { ExecutableGameFunctionResponse, GameFunctionBase } from "./function";
+
+export interface GameFunctionCall {
+  fn: GameFunctionBase;
+  fnId: string;
+  workerId: string;
+  submissionId?: string;
+  // Argument values as the function will receive them; middleware may edit
+  // or replace them before calling next().
+  args: Record<string, any>;
+  signal?: AbortSignal;
+}
+
+// Wraps function execution. Code before next() runs before the function and
+// can rewrite call.args or return a response without calling next() at all;
+// code after it can inspect or replace the response.
+export type GameFunctionMiddleware = (
+  call: GameFunctionCall,
+  next: () => Promise<ExecutableGameFunctionResponse>
+) => Promise<ExecutableGameFunctionResponse>;
+
+const INNERMOST = Symbol("innermost");
+
+// Marks middleware that has to run right before the function, after all
+// other middleware has had its chance to change call.args. Used for checks
+// like approval that must see exactly what will be executed.
+export function innermost(
+  middleware: GameFunctionMiddleware
+): GameFunctionMiddleware {
+  return Object.assign(middleware, { [INNERMOST]: true });
+}
+
+function isInnermost(middleware: GameFunctionMiddleware) {
+  return (middleware as { [INNERMOST]?: boolean })[INNERMOST] === true;
+}
+
+export function executeWithMiddleware(
+  chain: readonly GameFunctionMiddleware[],
+  call: GameFunctionCall,
+  logger: (msg: string) => void
+) {
+  // Innermost middleware keeps its relative order but always runs last,
+  // whenever it was registered.
+  const middlewares = [
+    ...chain.filter((middleware) => !isInnermost(middleware)),
+    ...chain.filter(isInnermost),
+  ];
+  const dispatch = (index: number): Promise<ExecutableGameFunctionResponse> => {
+    const middleware = middlewares[index];
+
+    if (!middleware) {
+      return call.fn.execute(
+        Object.fromEntries(
+          Object.entries(call.args).map(([key, value]) => [key, { value }])
+        ),
+        logger,
+        { signal: call.signal }
+      );
+    }
+
+    return middleware(call, () => dispatch(index + 1));
+  };
+
+  return dispatch(0);
+}
@@ -0,0 +1,267 @@
+import { GameFunctionArg } from "./function";
+
+export interface JsonSchema {
+  type?: string | string[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: any[];
+  default?: any;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  [key: string]: any;
+}
+
+// Structural view of a zod (v3 or v4) schema so zod is not a dependency.
+export interface ZodLikeSchema {
+  description?: string;
+  _def?: any;
+  _zod?: { def: any };
+}
+
+type ArgSpec = Omit<GameFunctionArg, "name" | "description">;
+
+function specToJsonSchema(spec: ArgSpec, description?: string): JsonSchema {
+  const schema: JsonSchema = {};
+
+  switch (spec.type) {
+    case "string":
+    case "number":
+    case "integer":
+    case "boolean":
+      schema.type = spec.type;
+      break;
+    case "enum":
+      schema.type = "string";
+      schema.enum = [...(spec.enum || [])];
+      break;
+    case "array":
+      schema.type = "array";
+      if (spec.items) {
+        schema.items = specToJsonSchema(spec.items);
+      }
+      break;
+    case "object":
+      Object.assign(schema, argsToJsonSchema(spec.properties || []));
+      break;
+  }
+
+  if (description) {
+    schema.description = description;
+  }
+
+  if (spec.default !== undefined) {
+    schema.default = spec.default;
+  }
+
+  return schema;
+}
+
+export function argsToJsonSchema(args: readonly GameFunctionArg[]) {
+  const schema: JsonSchema = { type: "object", properties: {}, required: [] };
+
+  args.forEach((arg) => {
+    schema.properties![arg.name] = specToJsonSchema(arg, arg.description);
+
+    if (arg.type && !arg.optional && arg.default === undefined) {
+      schema.required!.push(arg.name);
+    }
+  });
+
+  return schema;
+}
+
+// Strips a nullable wrapper (`["string", "null"]` or `anyOf: [..., null]`)
+// and reports whether one was present.
+function unwrapNullable(schema: JsonSchema): [JsonSchema, boolean] {
+  if (Array.isArray(schema.type)) {
+    const types = schema.type.filter((type) => type !== "null");
+    return [{ ...schema, type: types[0] }, types.length < schema.type.length];
+  }
+
+  const variants = schema.anyOf || schema.oneOf;
+  if (variants) {
+    const nonNull = variants.filter((variant) => variant.type !== "null");
+    if (nonNull.length === 1) {
+      const { anyOf, oneOf, ...rest } = schema;
+      return [{ ...rest, ...nonNull[0] }, nonNull.length < variants.length];
+    }
+  }
+
+  return [schema, false];
+}
+
+function jsonSchemaToSpec(schema: JsonSchema): ArgSpec {
+  const spec: ArgSpec = {};
+
+  if (schema.enum) {
+    spec.type = "enum";
+    spec.enum = schema.enum.map((value) => String(value));
+  } else {
+    switch (schema.type) {
+      case "string":
+      case "number":
+      case "integer":
+      case "boolean":
+        spec.type = schema.type;
+        break;
+      case "array":
+        spec.type = "array";
+        if (schema.items) {
+          spec.items = jsonSchemaToSpec(unwrapNullable(schema.items)[0]);
+        }
+        break;
+      case "object":
+        spec.type = "object";
+        if (schema.properties) {
+          spec.properties = jsonSchemaToArgs(schema);
+        }
+        break;
+    }
+  }
+
+  if (schema.default !== undefined) {
+    spec.default = schema.default;
+  }
+
+  return spec;
+}
+
+export function jsonSchemaToArgs(schema: JsonSchema): GameFunctionArg[] {
+  const required = schema.required || [];
+
+  return Object.entries(schema.properties || {}).map(([name, property]) => {
+    const [unwrapped, nullable] = unwrapNullable(property);
+
+    return {
+      name,
+      description: unwrapped.description || "",
+      ...jsonSchemaToSpec(unwrapped),
+      ...(nullable || !required.includes(name) ? { optional: true } : {}),
+    };
+  });
+}
+
+function zodDef(schema: ZodLikeSchema) {
+  const def = schema._zod?.def ?? schema._def;
+
+  if (!def) {
+    throw new Error("Expected a zod schema");
+  }
+
+  const kind: string = def.typeName
+    ? def.typeName.replace(/^Zod/, "").toLowerCase()
+    : def.type;
+
+  return { def, kind };
+}
+
+function isIntegerCheck(check: any) {
+  return (
+    check?.kind === "int" ||
+    String(check?._zod?.def?.format || "").includes("int")
+  );
+}
+
+export function zodToJsonSchema(schema: ZodLikeSchema): JsonSchema {
+  const { def, kind } = zodDef(schema);
+  const description = schema.description ?? def.description;
+  let result: JsonSchema;
+
+  switch (kind) {
+    case "object": {
+      const shape = typeof def.shape === "function" ? def.shape() : def.shape;
+      const properties: Record<string, JsonSchema> = {};
+      const required: string[] = [];
+
+      Object.entries(shape as Record<string, ZodLikeSchema>).forEach(
+        ([name, property]) => {
+          properties[name] = zodToJsonSchema(property);
+
+          if (!["optional", "default"].includes(zodDef(property).kind)) {
+            required.push(name);
+          }
+        }
+      );
+
+      result = { type: "object", properties, required };
+      break;
+    }
+    case "string":
+    case "boolean":
+      result = { type: kind };
+      break;
+    case "number":
+      result = {
+        type: (def.checks || []).some(isIntegerCheck) ? "integer" : "number",
+      };
+      break;
+    case "bigint":
+      result = { type: "integer" };
+      break;
+    case "enum":
+      result = {
+        type: "string",
+        enum: Array.isArray(def.values)
+          ? def.values
+          : Object.values(def.entries || {}),
+      };
+      break;
+    case "nativeenum":
+      result = {
+        type: "string",
+        enum: Object.values(def.values).map((value) => String(value)),
+      };
+      break;
+    case "literal":
+      result = {
+        type: "string",
+        enum: (def.values || [def.value]).map((value: any) => String(value)),
+      };
+      break;
+    case "array":
+      // zod 3 keeps the element schema in `type`, zod 4 in `element`.
+      result = {
+        type: "array",
+        items: zodToJsonSchema(def.element ?? def.type),
+      };
+      break;
+    case "record":
+      result = { type: "object" };
+      break;
+    case "optional":
+      result = zodToJsonSchema(def.innerType);
+      break;
+    case "nullable":
+      result = zodToJsonSchema(def.innerType);
+      if (typeof result.type === "string") {
+        result.type = [result.type, "null"];
+      }
+      break;
+    case "default":
+      result = {
+        ...zodToJsonSchema(def.innerType),
+        default:
+          typeof def.defaultValue === "function"
+            ? def.defaultValue()
+            : def.defaultValue,
+      };
+      break;
+    case "effects":
+      result = zodToJsonSchema(def.schema);
+      break;
+    case "pipe":
+      result = zodToJsonSchema(def.in);
+      break;
+    default:
+      // Unions, intersections and other exotic types are left untyped.
+      result = {};
+  }
+
+  if (description) {
+    result.description = description;
+  }
+
+  return result;
+}
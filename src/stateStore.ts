@@ -0,0 +1,146 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { GameAgentSnapshot } from "./agent";
+import { StateStore } from "./interface/StateStore";
+
+export class MemoryStateStore<T = GameAgentSnapshot> implements StateStore<T> {
+  private snapshots: Record<string, string> = {};
+
+  async load(key: string): Promise<T | null> {
+    const snapshot = this.snapshots[key];
+    return snapshot ? JSON.parse(snapshot) : null;
+  }
+
+  async save(key: string, snapshot: T) {
+    // Stored serialised so callers can't mutate saved state by reference.
+    this.snapshots[key] = JSON.stringify(snapshot);
+  }
+
+  async delete(key: string) {
+    delete this.snapshots[key];
+  }
+}
+
+export class FileStateStore<T = GameAgentSnapshot> implements StateStore<T> {
+  private writes = 0;
+  // Tail of the pending writes for each file.
+  private writing: Record<string, Promise<void>> = {};
+
+  constructor(private directory: string) {}
+
+  private filePath(key: string) {
+    return path.join(
+      this.directory,
+      `${key.replace(/[^a-zA-Z0-9_.-]/g, "_")}.json`
+    );
+  }
+
+  async load(key: string): Promise<T | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath(key), "utf8"));
+    } catch (e: any) {
+      if (e?.code === "ENOENT") {
+        return null;
+      }
+      throw e;
+    }
+  }
+
+  // Writes to the same file are chained so an older snapshot can't land
+  // after a newer one.
+  save(key: string, snapshot: T) {
+    const file = this.filePath(key);
+    const data = JSON.stringify(snapshot, null, 2);
+    const write = (this.writing[file] || Promise.resolve())
+      .catch(() => undefined)
+      .then(async () => {
+        const tmp = `${file}.${process.pid}.${++this.writes}.tmp`;
+
+        await fs.mkdir(this.directory, { recursive: true });
+        // Write then rename so a crash mid-write never leaves a corrupt
+        // snapshot.
+        await fs.writeFile(tmp, data);
+        await fs.rename(tmp, file);
+      });
+
+    this.writing[file] = write;
+
+    return write;
+  }
+
+  async delete(key: string) {
+    await fs.rm(this.filePath(key), { force: true });
+  }
+}
+
+// Matches the query interface of `pg`'s Pool and Client.
+export interface PostgresQueryable {
+  query(text: string, values?: any[]): Promise<{ rows: Record<string, any>[] }>;
+}
+
+export class PostgresStateStore<T = GameAgentSnapshot>
+  implements StateStore<T>
+{
+  private ready: Promise<void> | null = null;
+
+  constructor(
+    private db: PostgresQueryable,
+    private table = "game_agent_state"
+  ) {
+    if (!/^[a-zA-Z_][a-zA-Z0-9_.]*$/.test(table)) {
+      throw new Error(`Invalid table name: ${table}`);
+    }
+  }
+
+  private ensureTable() {
+    if (!this.ready) {
+      this.ready = this.db
+        .query(
+          `CREATE TABLE IF NOT EXISTS ${this.table} (
+            key TEXT PRIMARY KEY,
+            snapshot JSONB NOT NULL,
+            updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+          )`
+        )
+        .then(() => undefined)
+        .catch((e) => {
+          this.ready = null;
+          throw e;
+        });
+    }
+
+    return this.ready;
+  }
+
+  async load(key: string): Promise<T | null> {
+    await this.ensureTable();
+
+    const result = await this.db.query(
+      `SELECT snapshot FROM ${this.table} WHERE key = $1`,
+      [key]
+    );
+
+    const snapshot = result.rows[0]?.snapshot;
+    return typeof snapshot === "string"
+      ? JSON.parse(snapshot)
+      : snapshot ?? null;
+  }
+
+  async save(key: string, snapshot: T) {
+    await this.ensureTable();
+
+    await this.db.query(
+      `INSERT INTO ${this.table} (key, snapshot, updated_at)
+       VALUES ($1, $2, NOW())
+       ON CONFLICT (key) DO UPDATE
+       SET snapshot = EXCLUDED.snapshot, updated_at = NOW()`,
+      [key, JSON.stringify(snapshot)]
+    );
+  }
+
+  async delete(key: string) {
+    await this.ensureTable();
+
+    await this.db.query(`DELETE FROM ${this.table} WHERE key = $1`, [key]);
+  }
+}
@@ -0,0 +1,185 @@
+import { ExecutableGameFunctionStatus } from "./function";
+import { GameStepRecord } from "./events";
+import { GameFunctionMiddleware } from "./middleware";
+
+type Attributes = Record<string, string | number | boolean | undefined>;
+
+// The parts of @opentelemetry/api's Tracer and Meter used here, so the SDK
+// doesn't depend on OpenTelemetry. Pass trace.getTracer(...) and
+// metrics.getMeter(...) from your own setup.
+export interface TelemetrySpan {
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error | string): unknown;
+  end(): void;
+}
+
+export interface TelemetryTracer {
+  startActiveSpan<F extends (span: TelemetrySpan) => unknown>(
+    name: string,
+    options: { attributes?: Attributes },
+    fn: F
+  ): ReturnType<F>;
+}
+
+export interface TelemetryMeter {
+  createCounter(
+    name: string,
+    options?: { description?: string; unit?: string }
+  ): { add(value: number, attributes?: Attributes): void };
+  createHistogram(
+    name: string,
+    options?: { description?: string; unit?: string }
+  ): { record(value: number, attributes?: Attributes): void };
+}
+
+export interface GameTelemetryOptions {
+  tracer?: TelemetryTracer;
+  meter?: TelemetryMeter;
+}
+
+// SpanStatusCode.ERROR in @opentelemetry/api.
+const SPAN_STATUS_ERROR = 2;
+
+export class GameTelemetry {
+  private tracer?: TelemetryTracer;
+  private metrics: {
+    stepDuration: { record(value: number, attributes?: Attributes): void };
+    functionDuration: { record(value: number, attributes?: Attributes): void };
+    functionCalls: { add(value: number, attributes?: Attributes): void };
+    functionFailures: { add(value: number, attributes?: Attributes): void };
+    plannerErrors: { add(value: number, attributes?: Attributes): void };
+  } | null = null;
+
+  constructor(
+    options: GameTelemetryOptions = {},
+    private attributes: Attributes = {}
+  ) {
+    const { tracer, meter } = options;
+
+    this.tracer = tracer;
+
+    if (meter) {
+      this.metrics = {
+        stepDuration: meter.createHistogram("game.step.duration", {
+          description: "Duration of agent and worker steps",
+          unit: "ms",
+        }),
+        functionDuration: meter.createHistogram("game.function.duration", {
+          description: "Duration of function executions",
+          unit: "ms",
+        }),
+        functionCalls: meter.createCounter("game.function.calls", {
+          description: "Function executions",
+        }),
+        functionFailures: meter.createCounter("game.function.failures", {
+          description: "Function executions that failed or threw",
+        }),
+        plannerErrors: meter.createCounter("game.planner.errors", {
+          description: "Planner requests that threw",
+        }),
+      };
+    }
+  }
+
+  // Runs fn in a span, which becomes the parent of spans started inside it.
+  span<T>(
+    name: string,
+    attributes: Attributes,
+    fn: (span: TelemetrySpan | null) => Promise<T>
+  ): Promise<T> {
+    if (!this.tracer) {
+      return fn(null);
+    }
+
+    return this.tracer.startActiveSpan(
+      name,
+      { attributes: { ...this.attributes, ...attributes } },
+      async (span: TelemetrySpan) => {
+        try {
+          return await fn(span);
+        } catch (e) {
+          span.recordException(e instanceof Error ? e : String(e));
+          span.setStatus({
+            code: SPAN_STATUS_ERROR,
+            message: e instanceof Error ? e.message : String(e),
+          });
+          throw e;
+        } finally {
+          span.end();
+        }
+      }
+    );
+  }
+
+  recordStep(
+    span: TelemetrySpan | null,
+    record: GameStepRecord,
+    attributes: Attributes
+  ) {
+    span?.setAttribute("game.action.type", record.actionType);
+
+    if (record.fnName) {
+      span?.setAttribute("game.function.name", record.fnName);
+    }
+
+    this.metrics?.stepDuration.record(record.durationMs, {
+      ...this.attributes,
+      ...attributes,
+      "game.action.type": record.actionType,
+    });
+  }
+
+  planner<T>(name: string, attributes: Attributes, fn: () => Promise<T>) {
+    return this.span(name, attributes, async () => {
+      try {
+        return await fn();
+      } catch (e) {
+        this.metrics?.plannerErrors.add(1, {
+          ...this.attributes,
+          ...attributes,
+        });
+        throw e;
+      }
+    });
+  }
+
+  middleware(): GameFunctionMiddleware {
+    return (call, next) => {
+      const attributes = {
+        "game.worker.id": call.workerId,
+        "game.function.name": call.fn.name,
+      };
+
+      return this.span("game.function.execute", attributes, async (span) => {
+        const startedAt = Date.now();
+        let status = "error";
+
+        try {
+          const response = await next();
+
+          status = response.status;
+          span?.setAttribute("game.function.status", status);
+
+          return response;
+        } finally {
+          const metricAttributes = {
+            ...this.attributes,
+            ...attributes,
+            "game.function.status": status,
+          };
+
+          this.metrics?.functionCalls.add(1, metricAttributes);
+          this.metrics?.functionDuration.record(
+            Date.now() - startedAt,
+            metricAttributes
+          );
+
+          if (status !== ExecutableGameFunctionStatus.Done) {
+            this.metrics?.functionFailures.add(1, metricAttributes);
+          }
+        }
+      });
+    };
+  }
+}
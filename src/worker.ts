@@ -1,8 +1,20 @@
 import {
+  GameEventEmitter,
+  GameEvents,
+  GameStepRecord,
+  unwrapArgs,
+} from "./events";
+import {
+  ExecutableGameFunctionResponse,
   ExecutableGameFunctionResponseJSON,
+  ExecutableGameFunctionStatus,
   GameFunctionBase,
 } from "./function";
-import { ActionType, IGameClient } from "./interface/GameClient";
+import { ActionType, GameAction, IGameClient } from "./interface/GameClient";
+import { executeWithMiddleware, GameFunctionMiddleware } from "./middleware";
+import { DryRunRecorder } from "./dryRun";
+import { GameBudget } from "./budget";
+import { GameTelemetry } from "./telemetry";
 
 interface IGameWorker {
   id: string;
@@ -10,27 +22,84 @@ interface IGameWorker {
   description: string;
   functions: GameFunctionBase[];
   getEnvironment?: () => Promise<Record<string, any>>;
+  maxConsecutiveErrors?: number;
+  dryRun?: boolean;
+  // Functions skipped in a dry run in addition to those marked sideEffects.
+  sideEffects?: string[];
+}
+
+export interface GameWorkerSnapshot {
+  task: string | null;
+  submissionId: string | null;
+  gameActionResult: ExecutableGameFunctionResponseJSON | null;
+  consecutiveErrors: number;
+}
+
+export interface GameWorkerTaskResult {
+  submissionId: string;
+  task: string | null;
+  steps: number;
+  lastResult: ExecutableGameFunctionResponseJSON | null;
+  completed: boolean;
+  // Ended because the planner made maxConsecutiveErrors invalid actions.
+  failed: boolean;
+}
+
+// Whether a task step leaves the task running, finishes it, or ends it at the
+// error limit.
+type StepOutcome = "continue" | "done" | "error_limit";
+
+export function unknownFunctionFeedback(worker: GameWorker, fnName: string) {
+  const names = worker.functions.map((fn) => fn.name);
+
+  return `Function "${fnName}" is not available at ${
+    worker.name
+  }. Valid functions: ${names.join(", ") || "none"}.`;
 }
 
-class GameWorker implements IGameWorker {
+class GameWorker extends GameEventEmitter<GameEvents> implements IGameWorker {
   public id: string;
   public name: string;
   public description: string;
   public functions: GameFunctionBase[];
   public getEnvironment?: () => Promise<Record<string, any>>;
+  public maxConsecutiveErrors: number;
+  public consecutiveErrors = 0;
+  public middlewares: GameFunctionMiddleware[] = [];
 
   private agentId: string | null = null;
   private logger: ((msg: string) => void) | null = null;
   private gameClient: IGameClient | null = null;
 
   private gameActionResult: ExecutableGameFunctionResponseJSON | null = null;
+  private task: string | null = null;
+  private submissionId: string | null = null;
+  private onStateChange: (() => Promise<void>) | null = null;
+  private agentMiddlewares: readonly GameFunctionMiddleware[] = [];
+  private dryRunRecorder: DryRunRecorder | null = null;
+  private dryRunMiddleware: GameFunctionMiddleware | null = null;
+  private budget: GameBudget | null = null;
+  private telemetry = new GameTelemetry();
 
   constructor(options: IGameWorker) {
+    super();
+
     this.id = options.id;
     this.name = options.name;
     this.description = options.description;
     this.functions = options.functions;
     this.getEnvironment = options.getEnvironment;
+    this.maxConsecutiveErrors = options.maxConsecutiveErrors ?? 3;
+
+    if (options.dryRun) {
+      this.dryRunRecorder = new DryRunRecorder(options.sideEffects);
+      this.dryRunMiddleware = this.dryRunRecorder.middleware();
+    }
+  }
+
+  // Every function call made during a dry run, simulated or not.
+  get dryRunReport() {
+    return this.dryRunRecorder ? [...this.dryRunRecorder.entries] : [];
   }
 
   setAgentId(agentId: string) {
@@ -45,37 +114,165 @@ class GameWorker implements IGameWorker {
     this.gameClient = gameClient;
   }
 
-  async step(submissionId: string, options?: { verbose: boolean }) {
-    if (!this.agentId) {
+  setStateChangeListener(listener: (() => Promise<void>) | null) {
+    this.onStateChange = listener;
+  }
+
+  // Agent-level middleware runs around this worker's own.
+  setAgentMiddlewares(middlewares: readonly GameFunctionMiddleware[]) {
+    this.agentMiddlewares = middlewares;
+  }
+
+  // Shares the agent's planner call budget with this worker's tasks.
+  setBudget(budget: GameBudget | null) {
+    this.budget = budget;
+  }
+
+  setTelemetry(telemetry: GameTelemetry) {
+    this.telemetry = telemetry;
+  }
+
+  use(middleware: GameFunctionMiddleware) {
+    this.middlewares.push(middleware);
+    return this;
+  }
+
+  // The full chain for this worker's function calls, outermost first. A dry
+  // run check comes before the agent's middleware so simulated calls never
+  // reach its approval gate or quotas.
+  functionMiddlewares(agentMiddlewares: readonly GameFunctionMiddleware[]) {
+    return [
+      ...(this.dryRunMiddleware ? [this.dryRunMiddleware] : []),
+      ...agentMiddlewares,
+      ...this.middlewares,
+    ];
+  }
+
+  async step(
+    submissionId: string,
+    options?: { verbose?: boolean; signal?: AbortSignal }
+  ) {
+    const { agentId, gameClient } = this;
+
+    if (!agentId) {
       throw new Error("Agent not initialized");
     }
 
-    if (!this.gameClient) {
+    if (!gameClient) {
       throw new Error("Game client not initialized");
     }
 
+    try {
+      const [outcome] = await this.stepTask(
+        agentId,
+        gameClient,
+        submissionId,
+        options
+      );
+      return outcome === "continue";
+    } catch (error) {
+      this.emit("error", { workerId: this.id, submissionId, error });
+      throw error;
+    }
+  }
+
+  private stepTask(
+    agentId: string,
+    gameClient: IGameClient,
+    submissionId: string,
+    options?: { verbose?: boolean; signal?: AbortSignal }
+  ) {
+    const attributes = {
+      "game.worker.id": this.id,
+      "game.submission.id": submissionId,
+    };
+
+    return this.telemetry.span("game.worker.step", attributes, async (span) => {
+      const step = await this.performStep(
+        agentId,
+        gameClient,
+        submissionId,
+        options
+      );
+
+      // Submission ids stay off metrics to keep their cardinality low.
+      this.telemetry.recordStep(span, step[1], { "game.worker.id": this.id });
+
+      return step;
+    });
+  }
+
+  private async performStep(
+    agentId: string,
+    gameClient: IGameClient,
+    submissionId: string,
+    options?: { verbose?: boolean; signal?: AbortSignal }
+  ): Promise<[StepOutcome, GameStepRecord]> {
+    const stepStartedAt = Date.now();
     const environment = this.getEnvironment ? await this.getEnvironment() : {};
 
+    this.emit("beforeStep", { workerId: this.id, submissionId, environment });
+
     if (options?.verbose) {
       this.logger?.(`Environment State: ${JSON.stringify(environment)}`);
     }
 
-    const action = await this.gameClient.getTaskAction(
-      this.agentId,
-      submissionId,
-      this,
-      this.gameActionResult,
-      environment
+    this.budget?.countPlannerCall();
+
+    const action = await this.telemetry.planner(
+      "game.planner.get_task_action",
+      { "game.worker.id": this.id, "game.submission.id": submissionId },
+      () =>
+        gameClient.getTaskAction(
+          agentId,
+          submissionId,
+          this,
+          this.gameActionResult,
+          environment
+        )
     );
 
+    this.emit("actionReceived", { workerId: this.id, submissionId, action });
+
     this.gameActionResult = null;
 
-    if (
-      ![ActionType.CallFunction, ActionType.ContinueFunction].includes(
-        action.action_type
-      )
-    ) {
-      return false;
+    const isCall = [
+      ActionType.CallFunction,
+      ActionType.ContinueFunction,
+    ].includes(action.action_type);
+    const finish = (outcome: StepOutcome): [StepOutcome, GameStepRecord] => [
+      outcome,
+      {
+        workerId: this.id,
+        submissionId,
+        actionType: action.action_type,
+        thought: action.action_args?.thought || "",
+        fnName: isCall ? action.action_args.fn_name : null,
+        args: isCall ? unwrapArgs(action.action_args.args) : null,
+        response: this.gameActionResult && {
+          status: this.gameActionResult.action_status,
+          feedback: this.gameActionResult.feedback_message,
+        },
+        startedAt: stepStartedAt,
+        durationMs: Date.now() - stepStartedAt,
+      },
+    ];
+
+    if (action.action_type === ActionType.Wait) {
+      this.consecutiveErrors = 0;
+      this.emit("wait", { workerId: this.id, submissionId });
+
+      return finish("done");
+    }
+
+    if (!isCall) {
+      this.rejectAction(
+        action,
+        `Action type "${action.action_type}" is not supported in a task. Call one of the available functions or wait.`,
+        options?.verbose
+      );
+
+      return finish(this.rejectedOutcome());
     }
 
     const fn = this.functions.find(
@@ -83,9 +280,17 @@ class GameWorker implements IGameWorker {
     );
 
     if (!fn) {
-      throw new Error("Function not found");
+      this.rejectAction(
+        action,
+        unknownFunctionFeedback(this, action.action_args.fn_name),
+        options?.verbose
+      );
+
+      return finish(this.rejectedOutcome());
     }
 
+    this.consecutiveErrors = 0;
+
     options?.verbose &&
       this.logger?.(
         `Performing function ${
@@ -94,17 +299,84 @@ class GameWorker implements IGameWorker {
       );
 
     const args = action.action_args.args;
-    const result = await fn.execute(args, (msg: string) => this.logger?.(msg));
+    const call = {
+      workerId: this.id,
+      submissionId,
+      fnName: fn.name,
+      fnId: action.action_args.fn_id,
+      args: unwrapArgs(args),
+    };
+    const startedAt = Date.now();
+
+    this.emit("functionStart", call);
+
+    const result = await executeWithMiddleware(
+      this.functionMiddlewares(this.agentMiddlewares),
+      { ...call, fn, args: unwrapArgs(args), signal: options?.signal },
+      (msg: string) => this.logger?.(msg)
+    );
+
+    this.emit("functionEnd", {
+      ...call,
+      status: result.status,
+      feedback: result.feedback,
+      durationMs: Date.now() - startedAt,
+    });
 
     options?.verbose &&
       this.logger?.(`Function status: ${result.status} - ${result.feedback}.`);
 
     this.gameActionResult = result.toJSON(action.action_args.fn_id);
 
-    return true;
+    return finish("continue");
+  }
+
+  // Feeds an invalid planner action back as a failed result, like
+  // GameAgent.rejectAction.
+  private rejectAction(
+    action: GameAction,
+    feedback: string,
+    verbose?: boolean
+  ) {
+    this.consecutiveErrors += 1;
+
+    verbose && this.logger?.(`Invalid action: ${feedback}`);
+
+    this.gameActionResult = new ExecutableGameFunctionResponse(
+      ExecutableGameFunctionStatus.Failed,
+      feedback
+    ).toJSON(action.action_args?.fn_id || "");
+  }
+
+  private rejectedOutcome(): StepOutcome {
+    return this.consecutiveErrors < this.maxConsecutiveErrors
+      ? "continue"
+      : "error_limit";
   }
 
-  async runTask(task: string, options?: { verbose: boolean }) {
+  async runTask(
+    task: string,
+    options?: { verbose?: boolean; signal?: AbortSignal }
+  ): Promise<GameWorkerTaskResult> {
+    const submissionId = await this.submitTask(task);
+
+    return this.runSubmission(submissionId, options);
+  }
+
+  // Submits a task and steps it to completion, yielding a record of every
+  // step. Returns the task result.
+  async *taskSteps(
+    task: string,
+    options?: { verbose?: boolean; signal?: AbortSignal }
+  ): AsyncGenerator<GameStepRecord, GameWorkerTaskResult> {
+    const submissionId = await this.submitTask(task);
+
+    return yield* this.submissionSteps(submissionId, options);
+  }
+
+  // Registers a task with the planner without stepping it; use resumeTask to
+  // run it.
+  async submitTask(task: string) {
     if (!this.agentId) {
       throw new Error("Agent not initialized");
     }
@@ -115,13 +387,123 @@ class GameWorker implements IGameWorker {
 
     const submissionId = await this.gameClient.setTask(this.agentId, task);
 
+    this.task = task;
+    this.submissionId = submissionId;
+    this.consecutiveErrors = 0;
+    this.gameActionResult = null;
+
+    await this.onStateChange?.();
+
+    return submissionId;
+  }
+
+  // Continues a task that was submitted or in flight when the worker state
+  // was saved.
+  async resumeTask(options?: { verbose?: boolean; signal?: AbortSignal }) {
+    if (!this.submissionId) {
+      return null;
+    }
+
+    return this.runSubmission(this.submissionId, options);
+  }
+
+  private async runSubmission(
+    submissionId: string,
+    options?: { verbose?: boolean; signal?: AbortSignal }
+  ) {
+    const steps = this.submissionSteps(submissionId, options);
+
     while (true) {
-      const result = await this.step(submissionId, options);
-      if (!result) {
-        break;
+      const next = await steps.next();
+
+      if (next.done) {
+        return next.value;
       }
     }
   }
+
+  private async *submissionSteps(
+    submissionId: string,
+    options?: { verbose?: boolean; signal?: AbortSignal }
+  ): AsyncGenerator<GameStepRecord, GameWorkerTaskResult> {
+    const { agentId, gameClient } = this;
+
+    if (!agentId) {
+      throw new Error("Agent not initialized");
+    }
+
+    if (!gameClient) {
+      throw new Error("Game client not initialized");
+    }
+
+    const summary: GameWorkerTaskResult = {
+      submissionId,
+      task: this.task,
+      steps: 0,
+      lastResult: null,
+      completed: false,
+      failed: false,
+    };
+
+    while (true) {
+      let step: [StepOutcome, GameStepRecord];
+
+      // The task stays pending so it can be resumed once there is budget.
+      if (this.budget?.exhausted()) {
+        return summary;
+      }
+
+      try {
+        step = await this.stepTask(agentId, gameClient, submissionId, options);
+      } catch (error) {
+        this.emit("error", { workerId: this.id, submissionId, error });
+        throw error;
+      }
+
+      const [outcome, record] = step;
+      const more = outcome === "continue";
+
+      summary.steps += 1;
+      summary.lastResult = this.gameActionResult || summary.lastResult;
+
+      if (!more) {
+        this.task = null;
+        this.submissionId = null;
+        summary.completed = outcome === "done";
+        summary.failed = outcome === "error_limit";
+      }
+
+      await this.onStateChange?.();
+
+      yield record;
+
+      if (!more || options?.signal?.aborted) {
+        return summary;
+      }
+    }
+  }
+
+  get pendingTask() {
+    return this.submissionId
+      ? { task: this.task, submissionId: this.submissionId }
+      : null;
+  }
+
+  save(): GameWorkerSnapshot {
+    return {
+      task: this.task,
+      submissionId: this.submissionId,
+      gameActionResult: this.gameActionResult,
+      consecutiveErrors: this.consecutiveErrors,
+    };
+  }
+
+  restore(snapshot: Partial<GameWorkerSnapshot>) {
+    this.task = snapshot.task ?? null;
+    this.submissionId = snapshot.submissionId ?? null;
+    this.gameActionResult = snapshot.gameActionResult ?? null;
+    this.consecutiveErrors = snapshot.consecutiveErrors ?? 0;
+  }
 }
 
 export default GameWorker;